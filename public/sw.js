@@ -0,0 +1,251 @@
+// ZapDrop service worker.
+// Streams received files to disk as regular browser downloads: the page posts
+// chunks over a MessageChannel and the worker serves them from a ReadableStream.
+// Media still being received is served the same way, one range request at a
+// time, so it can be played before it's done. It also keeps the app cached so it opens offline once installed, and takes
+// files shared from the OS share sheet (share_target in manifest.webmanifest).
+
+const downloads = new Map();
+// How much of a download is held here, waiting to be written to disk
+const DOWNLOAD_QUEUE_BYTES = 4 * 1024 * 1024;
+// Media being played while it arrives, see src/utils/progressivePlayback.ts
+const watches = new Map();
+
+const APP_CACHE = 'zapdrop-app-v1';
+// Shared files wait here until the page picks them up, see src/utils/shareTarget.ts
+const SHARE_CACHE = 'zapdrop-share';
+const APP_SHELL = ['./', 'manifest.webmanifest', 'icon.svg', 'icon-192.png', 'icon-512.png'];
+const FONT_ORIGINS = ['https://fonts.googleapis.com', 'https://fonts.gstatic.com'];
+
+const scoped = (path) => new URL(path, self.registration.scope).href;
+
+self.addEventListener('install', (event) => {
+  self.skipWaiting();
+  // Offline support is a bonus; a failed precache shouldn't stop downloads from working
+  event.waitUntil(
+    caches.open(APP_CACHE)
+      .then(cache => cache.addAll(APP_SHELL.map(scoped)))
+      .catch(err => console.warn('Precaching failed:', err))
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(
+        names.filter(name => name.startsWith('zapdrop-app-') && name !== APP_CACHE).map(name => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  const message = event.data;
+  if (message?.type === 'watch') {
+    registerWatch(message, event.ports[0]);
+    return;
+  }
+  if (!message || message.type !== 'download') return;
+
+  const port = event.ports[0];
+  let chunkArrived = () => {};
+  const stream = new ReadableStream({
+    start(controller) {
+      port.onmessage = ({ data }) => {
+        if (data.type === 'chunk') {
+          controller.enqueue(new Uint8Array(data.data));
+        } else if (data.type === 'end') {
+          controller.close();
+          port.close();
+        } else if (data.type === 'abort') {
+          controller.error(new Error('Transfer failed'));
+          port.close();
+        }
+        chunkArrived();
+      };
+    },
+    // The page only sends as much as the queue has room for, so when the download
+    // is written slower than the file arrives, the data waits in the page
+    pull(controller) {
+      port.postMessage({ type: 'pull', bytes: controller.desiredSize });
+      return new Promise(resolve => {
+        chunkArrived = resolve;
+      });
+    },
+    cancel() {
+      port.postMessage({ type: 'cancel' });
+      port.close();
+    }
+  }, new ByteLengthQueuingStrategy({ highWaterMark: DOWNLOAD_QUEUE_BYTES }));
+
+  const url = `${self.registration.scope}download/${message.id}/${encodeURIComponent(message.fileName)}`;
+  downloads.set(url, { stream, ...message });
+  port.postMessage({ type: 'ready', url });
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const download = downloads.get(request.url);
+  if (download) {
+    downloads.delete(request.url);
+    event.respondWith(serveDownload(download));
+    return;
+  }
+  const watch = watches.get(request.url);
+  if (watch) {
+    event.respondWith(serveWatch(watch, request));
+    return;
+  }
+
+  if (request.method === 'POST' && request.url === scoped('share-target')) {
+    event.respondWith(receiveShare(request));
+    return;
+  }
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  const page = url.origin + url.pathname;
+  if (request.mode === 'navigate' && (page === scoped('./') || page === scoped('index.html'))) {
+    event.respondWith(networkFirst(request, scoped('./')));
+  } else if (url.href === scoped('zapdrop.config.json')) {
+    event.respondWith(networkFirst(request, url.href));
+  } else if (APP_SHELL.map(scoped).includes(url.href) || FONT_ORIGINS.includes(url.origin)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+function serveDownload(download) {
+  const headers = new Headers({
+    'Content-Type': download.fileType || 'application/octet-stream',
+    'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(download.fileName)}`,
+    'Content-Security-Policy': "default-src 'none'",
+    'X-Content-Type-Options': 'nosniff'
+  });
+  if (download.fileSize) {
+    headers.set('Content-Length', String(download.fileSize));
+  }
+
+  return new Response(download.stream, { headers });
+}
+
+function registerWatch(message, port) {
+  const url = `${self.registration.scope}watch/${message.id}/${encodeURIComponent(message.fileName)}`;
+  watches.set(url, { port, ...message });
+  port.onmessage = ({ data }) => {
+    if (data.type === 'close') {
+      watches.delete(url);
+      port.close();
+    }
+  };
+  port.postMessage({ type: 'ready', url });
+}
+
+// Each request gets its own channel to the page, which answers every pull with
+// the next piece of the range once it has arrived
+function serveWatch(watch, request) {
+  const { fileSize } = watch;
+  const range = /^bytes=(\d+)-(\d*)$/.exec(request.headers.get('Range') || '');
+  const start = range ? Number(range[1]) : 0;
+  const end = range && range[2] ? Math.min(Number(range[2]), fileSize - 1) : fileSize - 1;
+  if (start >= fileSize || end < start) {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${fileSize}` } });
+  }
+
+  const channel = new MessageChannel();
+  const port = channel.port1;
+  watch.port.postMessage({ type: 'range', start, end }, [channel.port2]);
+
+  const stream = new ReadableStream({
+    pull(controller) {
+      return new Promise(resolve => {
+        port.onmessage = ({ data }) => {
+          if (data.type === 'chunk') {
+            controller.enqueue(new Uint8Array(data.data));
+          } else if (data.type === 'end') {
+            controller.close();
+            port.close();
+          } else {
+            controller.error(new Error('Transfer stopped'));
+            port.close();
+          }
+          resolve();
+        };
+        port.postMessage({ type: 'pull' });
+      });
+    },
+    cancel() {
+      port.postMessage({ type: 'cancel' });
+      port.close();
+    }
+  });
+
+  const headers = new Headers({
+    'Content-Type': watch.fileType || 'application/octet-stream',
+    'Content-Length': String(end - start + 1),
+    'Accept-Ranges': 'bytes',
+    'Content-Security-Policy': "default-src 'none'",
+    'X-Content-Type-Options': 'nosniff'
+  });
+  if (!range) return new Response(stream, { headers });
+  headers.set('Content-Range', `bytes ${start}-${end}/${fileSize}`);
+  return new Response(stream, { status: 206, headers });
+}
+
+// The page is one file (vite-plugin-singlefile), so every navigation is kept
+// under the scope URL, whatever query string it came with
+async function networkFirst(request, cacheKey) {
+  const cache = await caches.open(APP_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(cacheKey, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(cacheKey);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(APP_CACHE);
+  const cached = await cache.match(request);
+  const update = fetch(request).then(response => {
+    // Fonts come back opaque, which is fine to cache but has no status to check
+    if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    update.catch(() => {});
+    return cached;
+  }
+  return update;
+}
+
+// Parks the shared files and text, then opens the app, which picks them up
+async function receiveShare(request) {
+  const form = await request.formData();
+  const cache = await caches.open(SHARE_CACHE);
+  const shareId = Date.now().toString(36);
+
+  const files = form.getAll('files').filter(value => value instanceof File);
+  await Promise.all(files.map((file, i) => cache.put(
+    scoped(`shared/${shareId}/${i}`),
+    new Response(file, {
+      headers: {
+        'Content-Type': file.type || 'application/octet-stream',
+        'X-File-Name': encodeURIComponent(file.name),
+        'X-Last-Modified': String(file.lastModified)
+      }
+    })
+  )));
+
+  const text = ['title', 'text', 'url']
+    .map(name => form.get(name))
+    .filter(value => typeof value === 'string' && value.trim())
+    .join('\n');
+  if (text) {
+    await cache.put(scoped(`shared/${shareId}/text`), new Response(text, { headers: { 'Content-Type': 'text/plain' } }));
+  }
+
+  return Response.redirect(scoped('./?shared=1'), 303);
+}
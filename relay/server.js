@@ -0,0 +1,249 @@
+#!/usr/bin/env node
+// ZapDrop relay. Forwards frames between browsers that can't reach each other
+// over WebRTC. Each browser connects with ?id=<its peer ID>; a binary frame
+// [1 byte ID length][peer ID][payload] is passed on to that peer with the ID
+// replaced by the sender's. Payloads are end-to-end encrypted by the clients
+// (see src/utils/relayTransport.ts), so the relay can't read them.
+//
+// No dependencies: run it with `node relay/server.js` or `npm run relay`.
+//   PORT            port to listen on, 8787 by default
+//   RELAY_ORIGINS   comma-separated origins allowed to connect, e.g.
+//                   https://sagarlamon.github.io; any origin when unset
+//
+// Put it behind a TLS-terminating proxy (nginx, Caddy) so pages served over
+// https can reach it with wss://.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const ALLOWED_ORIGINS = (process.env.RELAY_ORIGINS ?? '').split(',').map(origin => origin.trim()).filter(Boolean);
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Clients send chunk messages of up to 256KB plus framing
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+// Stop reading from a sender while its peer has this much waiting to go out
+const MAX_QUEUED_BYTES = 4 * 1024 * 1024;
+const PING_INTERVAL_MS = 30000;
+const MAX_ID_LENGTH = 64;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+// Registered clients by peer ID
+const clients = new Map();
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+class Client {
+  constructor(id, socket) {
+    this.id = id;
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    // Parts of a message split over several frames
+    this.fragments = [];
+    this.fragmentOpcode = null;
+    this.alive = true;
+    this.closed = false;
+
+    socket.on('data', data => this.receive(data));
+    socket.on('close', () => this.cleanup());
+    socket.on('error', () => this.cleanup());
+  }
+
+  send(opcode, payload) {
+    if (this.closed) return true;
+    return this.socket.write(encodeFrame(opcode, payload));
+  }
+
+  sendNotice(notice) {
+    this.send(OPCODE_TEXT, Buffer.from(JSON.stringify(notice)));
+  }
+
+  close(code = 1000) {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    this.send(OPCODE_CLOSE, payload);
+    this.socket.end();
+    this.cleanup();
+  }
+
+  cleanup() {
+    if (this.closed) return;
+    this.closed = true;
+    if (clients.get(this.id) === this) clients.delete(this.id);
+    this.socket.destroy();
+  }
+
+  // Parses as many complete frames as have arrived
+  receive(data) {
+    this.buffer = Buffer.concat([this.buffer, data]);
+    for (;;) {
+      if (this.buffer.length < 2) return;
+      const first = this.buffer[0];
+      const second = this.buffer[1];
+      const fin = (first & 0x80) !== 0;
+      const opcode = first & 0x0f;
+      const masked = (second & 0x80) !== 0;
+      let length = second & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        const longLength = this.buffer.readBigUInt64BE(2);
+        if (longLength > BigInt(MAX_MESSAGE_BYTES)) return this.close(1009);
+        length = Number(longLength);
+        offset = 10;
+      }
+      // Browsers always mask what they send
+      if (!masked) return this.close(1002);
+      if (length > MAX_MESSAGE_BYTES) return this.close(1009);
+      if (this.buffer.length < offset + 4 + length) return;
+
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3];
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+
+      this.handleFrame(fin, opcode, payload);
+      if (this.closed) return;
+    }
+  }
+
+  handleFrame(fin, opcode, payload) {
+    if (opcode === OPCODE_CLOSE) return this.close();
+    if (opcode === OPCODE_PING) return this.send(OPCODE_PONG, payload);
+    if (opcode === OPCODE_PONG) {
+      this.alive = true;
+      return;
+    }
+
+    if (opcode === OPCODE_CONTINUATION) {
+      if (this.fragmentOpcode === null) return this.close(1002);
+      this.fragments.push(payload);
+    } else {
+      this.fragmentOpcode = opcode;
+      this.fragments = [payload];
+    }
+    const size = this.fragments.reduce((sum, part) => sum + part.length, 0);
+    if (size > MAX_MESSAGE_BYTES) return this.close(1009);
+    if (!fin) return;
+
+    const message = Buffer.concat(this.fragments);
+    const messageOpcode = this.fragmentOpcode;
+    this.fragments = [];
+    this.fragmentOpcode = null;
+    // Clients only send binary frames
+    if (messageOpcode === OPCODE_BINARY) this.forward(message);
+  }
+
+  forward(message) {
+    if (message.length < 1) return;
+    const idLength = message[0];
+    const to = message.subarray(1, 1 + idLength).toString('utf8');
+    const target = clients.get(to);
+    if (!target) {
+      this.sendNotice({ type: 'unavailable', peer: to });
+      return;
+    }
+
+    const from = Buffer.from(this.id, 'utf8');
+    const relayed = Buffer.concat([Buffer.from([from.length]), from, message.subarray(1 + idLength)]);
+    target.send(OPCODE_BINARY, relayed);
+    // Backpressure: let the receiver's queue drain before reading more from this sender
+    if (target.socket.writableLength > MAX_QUEUED_BYTES && !this.socket.isPaused()) {
+      this.socket.pause();
+      // Whichever comes first removes the other, so a long transfer doesn't pile up listeners
+      const resume = () => {
+        target.socket.off('drain', resume);
+        target.socket.off('close', resume);
+        this.socket.resume();
+      };
+      target.socket.on('drain', resume);
+      target.socket.on('close', resume);
+    }
+  }
+}
+
+function reject(socket, status, reason) {
+  socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+}
+
+const server = createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end(`ZapDrop relay, ${clients.size} connected\n`);
+});
+
+server.on('upgrade', (req, socket) => {
+  const url = new URL(req.url ?? '/', 'http://relay');
+  const id = url.searchParams.get('id') ?? '';
+  const key = req.headers['sec-websocket-key'];
+  const origin = req.headers.origin;
+
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    return reject(socket, 400, 'Bad Request');
+  }
+  if (ALLOWED_ORIGINS.length > 0 && !ALLOWED_ORIGINS.includes(origin)) {
+    return reject(socket, 403, 'Forbidden');
+  }
+  if (!id || Buffer.byteLength(id) > MAX_ID_LENGTH) {
+    return reject(socket, 400, 'Bad Request');
+  }
+  // First come, first served; the clients' identity keys catch anyone posing as someone else
+  if (clients.has(id)) {
+    return reject(socket, 409, 'Conflict');
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+  clients.set(id, new Client(id, socket));
+});
+
+// Drops clients that stopped answering pings, so their IDs free up
+setInterval(() => {
+  for (const client of clients.values()) {
+    if (!client.alive) {
+      client.cleanup();
+      continue;
+    }
+    client.alive = false;
+    client.send(OPCODE_PING, Buffer.alloc(0));
+  }
+}, PING_INTERVAL_MS);
+
+server.listen(PORT, () => {
+  console.log(`ZapDrop relay listening on port ${PORT}`);
+});
@@ -1,6 +1,36 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { usePeer } from './hooks/usePeer';
-import { FileSender, FileReceiver } from './utils/fileTransfer';
+import {
+  FileReceiver,
+  IncomingFile,
+  IncomingOffer,
+  MAX_TEXT_LENGTH,
+  sendText
+} from './utils/fileTransfer';
+import type { Transport } from './utils/transport';
+import { pruneStalePartialTransfers } from './utils/transferStore';
+import {
+  ReceiveStorage,
+  StorageError,
+  StorageTarget,
+  canPickSaveLocation,
+  createDefaultStorage,
+  createFileSystemStorage,
+  getOpfsDirName,
+  pickSaveLocation,
+  pruneOpfsStorage
+} from './utils/receiveStorage';
+import {
+  FileWithPath,
+  collectDroppedFiles,
+  createFileInDirectory,
+  filesFromFolderInput,
+  pickDirectory,
+  sanitizeRelativePath
+} from './utils/folders';
+import { ZipArchive, createZipSink } from './utils/zipStream';
+import { ShortAuthString, deriveShortAuthString } from './utils/sas';
+import { DecryptionError, generateShareKey, readKeyFromUrl, withKeyInUrl } from './utils/chunkCrypto';
 import { useTheme } from './context/ThemeContext';
 import { 
   Sun, 
@@ -8,26 +38,59 @@ import {
   Copy, 
   Check, 
   ArrowRight,
-  Download,
   X,
   Volume2,
   VolumeX,
-  Zap
+  Zap,
+  HardDriveDownload,
+  FolderOpen,
+  Lock,
+  History,
+  Settings,
+  Minimize2
 } from 'lucide-react';
 import { QRCodeSVG } from 'qrcode.react';
 import { playSound } from './utils/sounds';
+import { formatSize } from './utils/format';
+import { HistoryRecord, addHistoryRecord, createHistoryRecord } from './utils/historyStore';
+import { TransferHistory } from './components/TransferHistory';
+import { ConnectionSettingsPanel } from './components/ConnectionSettingsPanel';
+import { LoadedSettings, loadSettings, toUrlParams } from './utils/peerConfig';
+import {
+  DeviceIdentity,
+  MAX_DEVICE_NAME_LENGTH,
+  cleanDeviceName,
+  exchangeIdentity,
+  loadDeviceIdentity,
+  saveDeviceName
+} from './utils/deviceIdentity';
+import { RoomRoster } from './components/RoomRoster';
+import { TrustedDevices } from './components/TrustedDevices';
+import { ChatMessage, MessagesPanel } from './components/MessagesPanel';
+import { SendingList } from './components/SendingList';
+import { ReceivedFile, ReceivingList } from './components/ReceivingList';
+import { ReceivedList } from './components/ReceivedList';
+import { IncomingOffers, PeerOffer } from './components/IncomingOffers';
+import { StagingTray } from './components/StagingTray';
+import { ProgressivePlayer } from './components/ProgressivePlayer';
+import { useLinkStats } from './hooks/useLinkStats';
+import { useStagedFiles } from './hooks/useStagedFiles';
+import { useFileSends } from './hooks/useFileSends';
+import { useWatchedTransfer } from './hooks/useWatchedTransfer';
+import { useTrustedDevices } from './hooks/useTrustedDevices';
+import { takeSharedItems } from './utils/shareTarget';
 
-interface FileTransferState {
-  file: File;
-  progress: number;
-  status: 'pending' | 'sending' | 'complete' | 'error';
+interface PendingSave {
+  id: string;
+  target: StorageTarget;
+  resolve: (storage: ReceiveStorage | Promise<ReceiveStorage>) => void;
 }
 
-interface ReceivedFile {
-  blob: Blob;
-  name: string;
-  type: string;
-}
+// Where the files of an accepted folder go: a directory the user picked, or a
+// ZIP download shared by the whole folder
+type FolderDestination =
+  | { kind: 'directory'; peerId: string; handle: FileSystemDirectoryHandle }
+  | { kind: 'zip'; peerId: string; archive: ZipArchive };
 
 interface Toast {
   id: string;
@@ -35,20 +98,72 @@ interface Toast {
   type: 'success' | 'error' | 'info';
 }
 
+// How long a folder download waits for a sender that dropped to reconnect
+const FOLDER_RELEASE_GRACE_MS = 2 * 60 * 1000;
+
+// Clipboard images all come in as "image.png", so give them a name worth keeping
+function namePastedFile(file: File): File {
+  if (file.name && file.name !== 'image.png') return file;
+  const extension = file.type.split('/')[1]?.split('+')[0] || 'bin';
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+  return new File([file], `pasted-${stamp}.${extension}`, { type: file.type, lastModified: file.lastModified });
+}
+
 export default function App() {
   const { theme, toggleTheme } = useTheme();
-  const { myId, connection, status, error, connectToPeer, retry } = usePeer();
+  const [connectionSettings, setConnectionSettings] = useState<LoadedSettings | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [identity, setIdentity] = useState<DeviceIdentity | null>(null);
+  const [deviceNameInput, setDeviceNameInput] = useState('');
+  const {
+    myId,
+    connections,
+    lanes,
+    reconnectingPeers,
+    status,
+    error,
+    usingTemporaryId,
+    connectToPeer,
+    disconnectPeer,
+    retry
+  } = usePeer(connectionSettings?.settings ?? null, identity?.peerId ?? null);
   const [remoteId, setRemoteId] = useState('');
   const [copied, setCopied] = useState(false);
-  const [files, setFiles] = useState<FileTransferState[]>([]);
-  const [receivedFile, setReceivedFile] = useState<ReceivedFile | null>(null);
-  const [receiveProgress, setReceiveProgress] = useState(0);
-  const [isReceiving, setIsReceiving] = useState(false);
+  const [receivedFiles, setReceivedFiles] = useState<ReceivedFile[]>([]);
+  const { watched, watch, stopWatching } = useWatchedTransfer(receivedFiles);
   const [soundEnabled, setSoundEnabled] = useState(true);
+  const [askWhereToSave, setAskWhereToSave] = useState(() => localStorage.getItem('askWhereToSave') === 'true');
+  const [pendingSaves, setPendingSaves] = useState<PendingSave[]>([]);
+  const [offers, setOffers] = useState<PeerOffer[]>([]);
+  // Peers left out of the next send; everyone else in the room gets the files
+  const [excludedPeers, setExcludedPeers] = useState<string[]>([]);
+  // Short authentication strings by peer, and the ones the user confirmed match
+  const [authStrings, setAuthStrings] = useState<Record<string, ShortAuthString>>({});
+  const [verifiedKeys, setVerifiedKeys] = useState<string[]>([]);
+  // Optional passphrase for a second layer of chunk encryption. A generated key
+  // rides along in the share link's fragment; a typed one has to be typed on both devices.
+  const [passphrase, setPassphrase] = useState(() => readKeyFromUrl() ?? '');
+  const [linkKey, setLinkKey] = useState<string | null>(null);
+  const [showEncryption, setShowEncryption] = useState(() => readKeyFromUrl() !== null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [keepReceivedFiles, setKeepReceivedFiles] = useState(() => localStorage.getItem('keepReceivedFiles') === 'true');
+  // On unless turned off; only text-like files get compressed either way
+  const [compressFiles, setCompressFiles] = useState(() => localStorage.getItem('compressFiles') !== 'false');
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [messageInput, setMessageInput] = useState('');
+  // Files shared from the OS share sheet, sent as soon as someone is connected
+  const [sharedQueue, setSharedQueue] = useState<FileWithPath[]>([]);
   const [toasts, setToasts] = useState<Toast[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const receiverRef = useRef<FileReceiver | null>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
+  // One receiver per open connection, keyed by peer ID
+  const receiversRef = useRef(new Map<string, { connection: Transport; receiver: FileReceiver }>());
+  // Peers whose offers go through without asking, after "Accept all"
+  const autoAcceptRef = useRef(new Set<string>());
+  // Folder destinations by transferId, set up when a folder offer is accepted
+  const folderDestinationsRef = useRef(new Map<string, FolderDestination>());
 
   const showToast = useCallback((message: string, type: Toast['type'] = 'info') => {
     const id = Math.random().toString(36).slice(2);
@@ -56,6 +171,44 @@ export default function App() {
     setTimeout(() => setToasts(prev => prev.filter(t => t.id !== id)), 3000);
   }, []);
 
+  const {
+    staged,
+    imageOptions,
+    setImageOptions,
+    stageFiles,
+    prepareImages,
+    moveStaged,
+    removeStaged,
+    clearStaged
+  } = useStagedFiles({ showToast });
+
+  // Verification belongs to the certificates behind the code, so a new connection
+  // from the same peer ID starts out unverified again
+  const isVerified = (peerId: string) => {
+    const sas = authStrings[peerId];
+    return !!sas && verifiedKeys.includes(sas.key);
+  };
+
+  const markVerified = useCallback((sas: ShortAuthString) => {
+    setVerifiedKeys(prev => prev.includes(sas.key) ? prev : [...prev, sas.key]);
+  }, []);
+
+  const setAutoAccept = useCallback((peerId: string, on: boolean) => {
+    if (on) autoAcceptRef.current.add(peerId);
+    else autoAcceptRef.current.delete(peerId);
+  }, []);
+
+  const {
+    trustedDevices,
+    remoteDevices,
+    handleRemoteDevice,
+    forgetRemoteDevice,
+    isTrusted,
+    trustDevice,
+    toggleAutoAccept: toggleTrustedAutoAccept,
+    forgetDevice
+  } = useTrustedDevices({ isVerified, onVerified: markVerified, setAutoAccept, showToast });
+
   const copyId = async () => {
     if (myId) {
       await navigator.clipboard.writeText(myId);
@@ -72,6 +225,30 @@ export default function App() {
     }
   };
 
+  const reloadConnectionSettings = useCallback(() => {
+    loadSettings().then(loaded => {
+      setConnectionSettings(loaded);
+      // Bad settings are left out rather than blocking the app, but the user should know
+      if (loaded.errors.length > 0) setShowSettings(true);
+      if (loaded.overriddenByLink.length > 0) {
+        showToast(`Using this link's ${loaded.overriddenByLink.join(', ')} instead of your saved settings`, 'info');
+      }
+    });
+  }, [showToast]);
+
+  useEffect(() => {
+    reloadConnectionSettings();
+  }, [reloadConnectionSettings]);
+
+  useEffect(() => {
+    loadDeviceIdentity()
+      .then(loaded => {
+        setIdentity(loaded);
+        setDeviceNameInput(loaded.deviceName);
+      })
+      .catch(err => console.error('Failed to load device identity:', err));
+  }, []);
+
   // Handle URL connection parameter
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
@@ -82,129 +259,594 @@ export default function App() {
     }
   }, [status, connectToPeer]);
 
-  // Connection sound
+  // Error sound
   useEffect(() => {
-    if (status === 'connected' && soundEnabled) {
-      playSound('connected');
-      showToast('Connected successfully', 'success');
-    } else if (status === 'error' && soundEnabled) {
+    if (status === 'error' && soundEnabled) {
       playSound('error');
     }
-  }, [status, soundEnabled, showToast]);
+  }, [status, soundEnabled]);
+
+  // Drop partial downloads nobody came back for, along with data from earlier sessions
+  useEffect(() => {
+    pruneStalePartialTransfers()
+      .then(partials => Promise.all(partials.map(p => getOpfsDirName(p.fileKey))))
+      .then(keep => pruneOpfsStorage(new Set(keep)))
+      .catch(err => console.error('Failed to prune partial transfers:', err));
+  }, []);
 
-  // File receiving
   useEffect(() => {
-    if (!connection) return;
+    localStorage.setItem('askWhereToSave', String(askWhereToSave));
+  }, [askWhereToSave]);
+
+  useEffect(() => {
+    localStorage.setItem('keepReceivedFiles', String(keepReceivedFiles));
+  }, [keepReceivedFiles]);
+
+  useEffect(() => {
+    localStorage.setItem('compressFiles', String(compressFiles));
+  }, [compressFiles]);
+
+  const askWhereToSaveRef = useRef(askWhereToSave);
+  askWhereToSaveRef.current = askWhereToSave;
+  // Read through a ref so toggling sound doesn't tear down a receiver mid-transfer
+  const soundEnabledRef = useRef(soundEnabled);
+  soundEnabledRef.current = soundEnabled;
+  const passphraseRef = useRef(passphrase);
+  passphraseRef.current = passphrase;
+  const keepReceivedFilesRef = useRef(keepReceivedFiles);
+  keepReceivedFilesRef.current = keepReceivedFiles;
+  const identityRef = useRef(identity);
+  identityRef.current = identity;
+  const myIdRef = useRef(myId);
+  myIdRef.current = myId;
+  // Incoming transfers in progress and when they started, for their history records
+  const receiveStartsRef = useRef(new Map<string, { incoming: IncomingFile; startedAt: number }>());
+
+  const recordHistory = useCallback((record: HistoryRecord) => {
+    addHistoryRecord(record)
+      .then(() => setHistoryVersion(v => v + 1))
+      .catch(err => console.error('Failed to save history:', err));
+  }, []);
 
-    receiverRef.current = new FileReceiver(connection);
+  const {
+    files,
+    sendFiles: sendFilesTo,
+    cancelSend,
+    retrySend,
+    togglePauseSend
+  } = useFileSends({ connections, lanes, passphrase, compressFiles, soundEnabled, showToast, recordHistory });
+
+  useEffect(() => {
+    receiversRef.current.forEach(entry => { entry.receiver.passphrase = passphrase || null; });
+  }, [passphrase]);
+
+  // Files kept in memory are warned about once; every one after goes the same way
+  const warnedAboutMemoryRef = useRef(false);
+  const openDefaultStorage = useCallback(async (target: StorageTarget) => {
+    const storage = await createDefaultStorage(target);
+    if (storage.kind === 'memory' && !warnedAboutMemoryRef.current) {
+      warnedAboutMemoryRef.current = true;
+      showToast("This browser can't save files as they arrive, so they're kept in memory until done", 'info');
+    }
+    return storage;
+  }, [showToast]);
+
+  const updateReceived = useCallback((id: string, update: Partial<ReceivedFile>) => {
+    setReceivedFiles(prev => prev.map(f => f.id === id ? { ...f, ...update } : f));
+  }, []);
+
+  const saveFile = (file: File) => {
+    const url = URL.createObjectURL(file);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = file.name;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Picking a directory needs a click, so only offers the user accepts by hand can ask;
+  // everything else, and browsers without the picker, get a streamed ZIP instead
+  const prepareFolder = useCallback(async (peerId: string, offer: IncomingOffer, canPrompt: boolean) => {
+    const folderFiles = offer.files.filter(f => f.relativePath);
+    if (folderFiles.length === 0) return;
+    const destinations = folderDestinationsRef.current;
+
+    const handle = canPrompt ? await pickDirectory().catch(() => null) : null;
+    if (handle) {
+      folderFiles.forEach(f => destinations.set(f.transferId, { kind: 'directory', peerId, handle }));
+      return;
+    }
+
+    const roots = new Set(folderFiles.map(f => sanitizeRelativePath(f.relativePath!)[0]));
+    const archiveName = roots.size === 1 ? `${Array.from(roots)[0]}.zip` : 'ZapDrop folders.zip';
+    const totalSize = folderFiles.reduce((sum, f) => sum + f.fileSize, 0);
+    const archive = new ZipArchive(archiveName, await createZipSink(archiveName, totalSize), folderFiles.map(f => f.transferId));
+    archive.onClose = (file, entries) => {
+      if (file) saveFile(file);
+      showToast(`Saved ${entries} file${entries === 1 ? '' : 's'} to ${archiveName}`, 'success');
+    };
+    archive.onError = (err) => {
+      console.error('Archive error:', err);
+      showToast(`Failed to save ${archiveName}`, 'error');
+    };
+    folderFiles.forEach(f => destinations.set(f.transferId, { kind: 'zip', peerId, archive }));
+  }, [showToast]);
+
+  // A folder with nowhere to go is declined, rather than received file by file into memory
+  const acceptOffer = useCallback(async (receiver: FileReceiver | undefined, peerId: string, offer: IncomingOffer, canPrompt: boolean) => {
+    try {
+      await prepareFolder(peerId, offer, canPrompt);
+    } catch (err) {
+      if (err instanceof StorageError) {
+        showToast(err.message, 'error');
+        receiver?.answerOffer(offer.offerId, false);
+        return;
+      }
+      console.error('Failed to prepare folder:', err);
+    }
+    receiver?.answerOffer(offer.offerId, true);
+  }, [prepareFolder, showToast]);
+
+  // Lets a ZIP stop waiting on a transfer that finished, failed or never started
+  const releaseFolderDestination = useCallback((transferId: string) => {
+    const destination = folderDestinationsRef.current.get(transferId);
+    if (!destination) return;
+    folderDestinationsRef.current.delete(transferId);
+    if (destination.kind === 'zip') destination.archive.skip(transferId);
+  }, []);
+
+  const createReceiver = useCallback((connection: Transport) => {
+    const peerId = connection.peer;
+    const receiver = new FileReceiver(connection);
+    receiver.passphrase = passphraseRef.current || null;
+    autoAcceptRef.current.delete(peerId);
+
+    receiver.onOffer = (offer) => {
+      if (autoAcceptRef.current.has(peerId)) {
+        acceptOffer(receiver, peerId, offer, false);
+        return;
+      }
+      setOffers(prev => [...prev, { ...offer, peerId }]);
+      if (soundEnabledRef.current) playSound('click');
+    };
+
+    receiver.onText = ({ messageId, text, sentAt }) => {
+      setMessages(prev => [...prev, { id: messageId, direction: 'in', peers: [peerId], text, sentAt }]);
+      if (soundEnabledRef.current) playSound('click');
+    };
     
-    receiverRef.current.onStart = () => {
-      setIsReceiving(true);
-      setReceiveProgress(0);
-      setReceivedFile(null);
+    receiver.onStart = (incoming) => {
+      // A transfer that continues after a reconnect keeps its original start
+      const startedAt = receiveStartsRef.current.get(incoming.transferId)?.startedAt ?? Date.now();
+      receiveStartsRef.current.set(incoming.transferId, { incoming, startedAt });
+      setReceivedFiles(prev => [
+        ...prev.filter(f => f.id !== incoming.transferId),
+        {
+          id: incoming.transferId,
+          peerId,
+          name: incoming.fileName,
+          relativePath: incoming.relativePath,
+          type: incoming.fileType,
+          size: incoming.fileSize,
+          progress: 0,
+          status: 'receiving',
+          file: null,
+          hash: null,
+          storage: null
+        }
+      ]);
     };
 
-    receiverRef.current.onProgress = (progress) => {
-      setReceiveProgress(progress);
+    receiver.onProgress = (transferId, progress, stats) => {
+      updateReceived(transferId, stats ? { progress, stats } : { progress });
     };
 
-    receiverRef.current.onComplete = (blob, fileName, fileType) => {
-      setReceivedFile({ blob, name: fileName, type: fileType });
-      setIsReceiving(false);
-      if (soundEnabled) playSound('complete');
-      showToast(`Received: ${fileName}`, 'success');
+    receiver.onComplete = (completed) => {
+      releaseFolderDestination(completed.transferId);
+      recordHistory(createHistoryRecord({
+        id: completed.transferId,
+        direction: 'received',
+        peerId,
+        fileName: completed.relativePath ?? completed.fileName,
+        fileType: completed.fileType,
+        fileSize: completed.fileSize,
+        fileHash: completed.fileHash,
+        startedAt: receiveStartsRef.current.get(completed.transferId)?.startedAt ?? Date.now(),
+        outcome: 'complete',
+        file: keepReceivedFilesRef.current && completed.file ? completed.file : undefined
+      }));
+      receiveStartsRef.current.delete(completed.transferId);
+      updateReceived(completed.transferId, {
+        status: 'complete',
+        progress: 100,
+        file: completed.file,
+        hash: completed.fileHash,
+        storage: completed.storage
+      });
+      if (soundEnabledRef.current) playSound('complete');
+      showToast(`Received: ${completed.fileName}`, 'success');
     };
 
-    receiverRef.current.onError = (err) => {
+    receiver.onPausedChange = (transferId, paused) => {
+      updateReceived(transferId, { paused });
+    };
+
+    receiver.onCancel = (transferId, byPeer) => {
+      releaseFolderDestination(transferId);
+      const start = receiveStartsRef.current.get(transferId);
+      receiveStartsRef.current.delete(transferId);
+      if (start) {
+        const { incoming, startedAt } = start;
+        recordHistory(createHistoryRecord({
+          id: transferId,
+          direction: 'received',
+          peerId,
+          fileName: incoming.relativePath ?? incoming.fileName,
+          fileType: incoming.fileType,
+          fileSize: incoming.fileSize,
+          fileHash: null,
+          startedAt,
+          outcome: 'cancelled'
+        }));
+        if (byPeer) showToast(`${peerId} cancelled ${incoming.fileName}`, 'info');
+      }
+      updateReceived(transferId, { status: 'cancelled', paused: false });
+    };
+
+    // Asking for a save location needs a click, so the transfer waits on the prompt below
+    receiver.resolveStorage = async (target) => {
+      const folder = folderDestinationsRef.current.get(target.transferId);
+      if (folder?.kind === 'directory' && target.relativePath) {
+        return createFileSystemStorage(target, await createFileInDirectory(folder.handle, target.relativePath));
+      }
+      if (folder?.kind === 'zip') {
+        return folder.archive.createEntry(target);
+      }
+
+      if (!askWhereToSaveRef.current) return openDefaultStorage(target);
+      return new Promise(resolve => setPendingSaves(prev => [
+        ...prev,
+        { id: Math.random().toString(36).slice(2), target, resolve }
+      ]));
+    };
+
+    receiver.onError = (err, transferId) => {
       console.error('Receive error:', err);
-      setIsReceiving(false);
-      if (soundEnabled) playSound('error');
-      showToast('Transfer failed', 'error');
+      releaseFolderDestination(transferId);
+      const start = receiveStartsRef.current.get(transferId);
+      receiveStartsRef.current.delete(transferId);
+      if (start) {
+        const { incoming, startedAt } = start;
+        recordHistory(createHistoryRecord({
+          id: transferId,
+          direction: 'received',
+          peerId,
+          fileName: incoming.relativePath ?? incoming.fileName,
+          fileType: incoming.fileType,
+          fileSize: incoming.fileSize,
+          fileHash: null,
+          startedAt,
+          outcome: 'failed'
+        }));
+      }
+      updateReceived(transferId, { status: 'error' });
+      if (soundEnabledRef.current) playSound('error');
+      showToast(err instanceof DecryptionError || err instanceof StorageError ? err.message : 'Transfer failed', 'error');
     };
 
+    return receiver;
+  }, [acceptOffer, openDefaultStorage, recordHistory, releaseFolderDestination, showToast, updateReceived]);
+
+  // File receiving: keep one receiver per connection in the room
+  useEffect(() => {
+    const receivers = receiversRef.current;
+
+    for (const [peerId, entry] of receivers) {
+      if (!connections.includes(entry.connection)) {
+        entry.receiver.destroy();
+        receivers.delete(peerId);
+        setOffers(prev => prev.filter(o => o.peerId !== peerId));
+        setAuthStrings(prev => {
+          const { [peerId]: _removed, ...rest } = prev;
+          return rest;
+        });
+        forgetRemoteDevice(peerId);
+        // Give the peer a chance to come back and finish the folder first
+        setTimeout(() => {
+          if (receivers.has(peerId)) return;
+          for (const [transferId, destination] of folderDestinationsRef.current) {
+            if (destination.peerId === peerId) releaseFolderDestination(transferId);
+          }
+        }, FOLDER_RELEASE_GRACE_MS);
+      }
+    }
+
+    for (const connection of connections) {
+      if (receivers.get(connection.peer)?.connection === connection) continue;
+      receivers.get(connection.peer)?.receiver.destroy();
+      receivers.set(connection.peer, { connection, receiver: createReceiver(connection) });
+
+      deriveShortAuthString(connection)
+        .then(sas => {
+          if (!sas || receivers.get(connection.peer)?.connection !== connection) return;
+          setAuthStrings(prev => ({ ...prev, [connection.peer]: sas }));
+
+          const identity = identityRef.current;
+          const localId = myIdRef.current;
+          if (!identity || !localId) return;
+          exchangeIdentity(connection, identity, localId, sas.key)
+            .then(device => {
+              if (receivers.get(connection.peer)?.connection === connection) handleRemoteDevice(sas, device);
+            })
+            .catch(err => console.warn('Device identity not confirmed:', err));
+        })
+        .catch(err => console.error('Failed to derive verification code:', err));
+
+      if (soundEnabledRef.current) playSound('connected');
+      showToast(`Connected to ${connection.peer}`, 'success');
+    }
+  }, [connections, createReceiver, forgetRemoteDevice, handleRemoteDevice, releaseFolderDestination, showToast]);
+
+  // A peer's extra lanes can carry chunks too, see parallelConnections
+  useEffect(() => {
+    for (const lane of lanes) {
+      if (lane.open) receiversRef.current.get(lane.peer)?.receiver.addLane(lane);
+    }
+  }, [lanes, connections]);
+
+  useEffect(() => {
+    const receivers = receiversRef.current;
     return () => {
-      receiverRef.current = null;
+      receivers.forEach(entry => entry.receiver.destroy());
+      receivers.clear();
     };
-  }, [connection, soundEnabled, showToast]);
+  }, []);
+
+  const togglePauseReceive = (receivedFile: ReceivedFile) => {
+    const receiver = receiversRef.current.get(receivedFile.peerId)?.receiver;
+    if (receivedFile.paused) receiver?.resumeTransfer(receivedFile.id);
+    else receiver?.pauseTransfer(receivedFile.id);
+  };
 
-  // Send files
-  const sendFiles = useCallback(async (fileList: File[]) => {
-    if (!connection) return;
+  const watchReceive = (receivedFile: ReceivedFile) => {
+    const source = receiversRef.current.get(receivedFile.peerId)?.receiver.watchTransfer(receivedFile.id);
+    if (!source) {
+      showToast(`${receivedFile.name} can only be played once it's fully received`, 'info');
+      return;
+    }
+    watch(receivedFile.id, source);
+  };
 
-    const newFiles = fileList.map(f => ({
-      file: f,
-      progress: 0,
-      status: 'pending' as const
-    }));
+  const cancelReceive = (receivedFile: ReceivedFile) => {
+    receiversRef.current.get(receivedFile.peerId)?.receiver.cancelTransfer(receivedFile.id);
+    if (soundEnabled) playSound('click');
+  };
 
-    setFiles(prev => [...prev, ...newFiles]);
+  const recipients = connections.filter(c => !excludedPeers.includes(c.peer));
+  const connectedPeers = connections.map(c => c.peer);
+  // Transfers and the roster stay on screen while dropped peers are being dialed again
+  const inSession = connections.length > 0 || reconnectingPeers.length > 0;
+  const linkStats = useLinkStats(
+    connections,
+    files.some(f => f.status === 'sending') || receivedFiles.some(f => f.status === 'receiving')
+  );
 
-    for (let i = 0; i < fileList.length; i++) {
-      const file = fileList[i];
-      const fileIndex = files.length + i;
+  // Send files to every selected peer
+  const sendFiles = useCallback((fileList: (FileWithPath & { thumbnail?: string })[]) => {
+    if (recipients.length > 0) sendFilesTo(recipients, fileList);
+  }, [recipients, sendFilesTo]);
 
-      setFiles(prev => prev.map((f, idx) => 
-        idx === fileIndex ? { ...f, status: 'sending' } : f
-      ));
+  const sendStaged = () => {
+    if (recipients.length === 0 || staged.length === 0 || staged.some(s => s.processing)) return;
+    sendFiles(staged.map(({ file, relativePath, thumbnail }) => ({ file, relativePath, thumbnail: thumbnail ?? undefined })));
+    clearStaged();
+    if (soundEnabled) playSound('click');
+  };
 
-      try {
-        const sender = new FileSender(connection, file);
-        sender.onProgress = (progress) => {
-          setFiles(prev => prev.map((f, idx) => 
-            idx === fileIndex ? { ...f, progress } : f
-          ));
-        };
+  useEffect(() => {
+    takeSharedItems()
+      .then(shared => {
+        if (!shared) return;
+        if (shared.text) setMessageInput(shared.text);
+        if (shared.files.length > 0) setSharedQueue(shared.files.map(file => ({ file })));
+      })
+      .catch(err => console.error('Failed to read shared files:', err));
+  }, []);
 
-        await sender.send();
-        
-        setFiles(prev => prev.map((f, idx) => 
-          idx === fileIndex ? { ...f, status: 'complete', progress: 100 } : f
-        ));
-
-        if (soundEnabled) playSound('complete');
-        showToast(`Sent: ${file.name}`, 'success');
-      } catch (err) {
-        setFiles(prev => prev.map((f, idx) => 
-          idx === fileIndex ? { ...f, status: 'error' } : f
-        ));
-        if (soundEnabled) playSound('error');
-        showToast(`Failed to send: ${file.name}`, 'error');
-      }
+  useEffect(() => {
+    if (sharedQueue.length === 0 || recipients.length === 0) return;
+    prepareImages(sharedQueue)
+      .then(sendFiles)
+      .catch(err => console.error('Failed to send shared files:', err));
+    setSharedQueue([]);
+  }, [sharedQueue, recipients, prepareImages, sendFiles]);
+
+  const sendMessage = useCallback((text: string) => {
+    if (recipients.length === 0 || !text.trim()) return;
+
+    // Too long to be a message; it goes like any other file
+    if (text.length > MAX_TEXT_LENGTH) {
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+      sendFiles([{ file: new File([text], `text-${stamp}.txt`, { type: 'text/plain' }) }]);
+      showToast('Long text sent as a file', 'info');
+      return;
+    }
+
+    let sent: ReturnType<typeof sendText> | null = null;
+    for (const connection of recipients) {
+      sent = sendText(connection, text);
+    }
+    if (sent) {
+      const { messageId, sentAt } = sent;
+      setMessages(prev => [...prev, { id: messageId, direction: 'out', peers: recipients.map(c => c.peer), text, sentAt }]);
+    }
+  }, [recipients, sendFiles, showToast]);
+
+  // Pasted files and images go as files, pasted text as a message
+  const sendPasted = useCallback((data: DataTransfer): boolean => {
+    const pastedFiles = Array.from(data.files);
+    if (pastedFiles.length > 0) {
+      prepareImages(pastedFiles.map(file => ({ file: namePastedFile(file) })))
+        .then(sendFiles)
+        .catch(err => console.error('Failed to send pasted files:', err));
+      return true;
+    }
+    const text = data.getData('text/plain');
+    if (text.trim()) {
+      sendMessage(text);
+      return true;
+    }
+    return false;
+  }, [prepareImages, sendFiles, sendMessage]);
+
+  // Paste anywhere outside a text field sends straight away
+  useEffect(() => {
+    if (recipients.length === 0) return;
+
+    const onPaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+      if (e.clipboardData && sendPasted(e.clipboardData)) e.preventDefault();
+    };
+    document.addEventListener('paste', onPaste);
+    return () => document.removeEventListener('paste', onPaste);
+  }, [recipients.length, sendPasted]);
+
+  const submitMessage = () => {
+    if (!messageInput.trim()) return;
+    sendMessage(messageInput);
+    setMessageInput('');
+    if (soundEnabled) playSound('click');
+  };
+
+  const copyMessage = async (message: ChatMessage) => {
+    await navigator.clipboard.writeText(message.text);
+    showToast('Copied', 'info');
+  };
+
+  const toggleVerified = (peerId: string) => {
+    const sas = authStrings[peerId];
+    if (!sas) return;
+    setVerifiedKeys(prev => prev.includes(sas.key) ? prev.filter(k => k !== sas.key) : [...prev, sas.key]);
+    if (soundEnabled) playSound('click');
+  };
+
+  const connectToTrusted = (peerId: string) => {
+    connectToPeer(peerId);
+    if (soundEnabled) playSound('click');
+  };
+
+  // Peers see the new name on their next connection
+  const commitDeviceName = () => {
+    if (!identity) return;
+    const name = cleanDeviceName(deviceNameInput);
+    if (!name || name === identity.deviceName) {
+      setDeviceNameInput(identity.deviceName);
+      return;
     }
-  }, [connection, files.length, soundEnabled, showToast]);
+    saveDeviceName(identity, name)
+      .then(updated => {
+        setIdentity(updated);
+        setDeviceNameInput(updated.deviceName);
+      })
+      .catch(err => console.error('Failed to save device name:', err));
+  };
+
+  const togglePeer = (peerId: string) => {
+    setExcludedPeers(prev => prev.includes(peerId) ? prev.filter(id => id !== peerId) : [...prev, peerId]);
+  };
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    const droppedFiles = Array.from(e.dataTransfer.files);
-    if (droppedFiles.length > 0) sendFiles(droppedFiles);
-  }, [sendFiles]);
+    try {
+      const droppedFiles = await collectDroppedFiles(e.dataTransfer);
+      if (droppedFiles.length > 0) stageFiles(droppedFiles);
+    } catch (err) {
+      console.error('Failed to read dropped folder:', err);
+      showToast('Could not read the dropped folder', 'error');
+    }
+  }, [stageFiles, showToast]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFiles = Array.from(e.target.files || []);
-    if (selectedFiles.length > 0) sendFiles(selectedFiles);
+    const selectedFiles = Array.from(e.target.files || []).map(file => ({ file }));
+    if (selectedFiles.length > 0) stageFiles(selectedFiles);
     e.target.value = '';
   };
 
-  const downloadFile = () => {
-    if (!receivedFile) return;
-    const url = URL.createObjectURL(receivedFile.blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = receivedFile.name;
-    a.click();
-    URL.revokeObjectURL(url);
+  const handleFolderSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFiles = filesFromFolderInput(e.target.files ?? new DataTransfer().files);
+    if (selectedFiles.length > 0) stageFiles(selectedFiles);
+    e.target.value = '';
+  };
+
+  // React has no typed prop for webkitdirectory, so it's set on the element directly
+  const setFolderInput = useCallback((input: HTMLInputElement | null) => {
+    folderInputRef.current = input;
+    input?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const answerOffer = async (offer: PeerOffer, accept: boolean) => {
+    if (accept && !isVerified(offer.peerId)) return;
+    setOffers(prev => prev.filter(o => o.offerId !== offer.offerId));
     if (soundEnabled) playSound('click');
+    const receiver = receiversRef.current.get(offer.peerId)?.receiver;
+    if (accept) {
+      await acceptOffer(receiver, offer.peerId, offer, true);
+    } else {
+      receiver?.answerOffer(offer.offerId, false);
+    }
   };
 
-  const formatSize = (bytes: number) => {
-    if (bytes < 1024) return `${bytes} B`;
-    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+  // Accepts everything this peer has offered, and anything else it sends while connected
+  const acceptAllOffers = (peerId: string) => {
+    if (!isVerified(peerId)) return;
+    autoAcceptRef.current.add(peerId);
+    const receiver = receiversRef.current.get(peerId)?.receiver;
+    offers.filter(o => o.peerId === peerId).forEach(offer => acceptOffer(receiver, peerId, offer, false));
+    setOffers(prev => prev.filter(o => o.peerId !== peerId));
+    if (soundEnabled) playSound('click');
   };
 
-  const shareUrl = myId ? `${window.location.origin}${window.location.pathname}?connect=${myId}` : '';
+  const chooseSaveLocation = async (pending: PendingSave) => {
+    setPendingSaves(prev => prev.filter(p => p.id !== pending.id));
+
+    const { target, resolve } = pending;
+    const handle = await pickSaveLocation(target.fileName).catch(() => null);
+    resolve(handle ? createFileSystemStorage(target, handle) : openDefaultStorage(target));
+  };
+
+  const saveToDefaultLocation = (pending: PendingSave) => {
+    setPendingSaves(prev => prev.filter(p => p.id !== pending.id));
+    pending.resolve(openDefaultStorage(pending.target));
+  };
+
+  const copyHash = async (receivedFile: ReceivedFile) => {
+    if (!receivedFile.hash) return;
+    await navigator.clipboard.writeText(receivedFile.hash);
+    showToast('SHA-256 copied', 'info');
+  };
+
+  const downloadFile = (receivedFile: ReceivedFile) => {
+    if (!receivedFile.file) return;
+    saveFile(receivedFile.file);
+    if (soundEnabled) playSound('click');
+  };
+
+  const generatePassphrase = () => {
+    const key = generateShareKey();
+    setPassphrase(key);
+    setLinkKey(key);
+  };
+
+  // Share links carry a custom signaling server along, so the other device can find this one
+  const shareQuery = toUrlParams(connectionSettings?.settings ?? {}).toString();
+  const baseShareUrl = myId
+    ? `${window.location.origin}${window.location.pathname}?connect=${myId}${shareQuery ? `&${shareQuery}` : ''}`
+    : '';
+  const shareUrl = baseShareUrl && passphrase && passphrase === linkKey
+    ? withKeyInUrl(baseShareUrl, passphrase)
+    : baseShareUrl;
 
   return (
     <div className="min-h-screen flex flex-col" style={{ background: 'var(--bg-primary)' }}>
@@ -238,6 +880,53 @@ export default function App() {
         </div>
         
         <div className="flex items-center gap-4">
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            title="Connection settings"
+            className="p-2 transition-opacity hover:opacity-60"
+            style={{ color: showSettings ? 'var(--text-primary)' : 'var(--text-secondary)' }}
+          >
+            <Settings size={18} />
+          </button>
+
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            title="Transfer history"
+            className="p-2 transition-opacity hover:opacity-60"
+            style={{ color: showHistory ? 'var(--text-primary)' : 'var(--text-secondary)' }}
+          >
+            <History size={18} />
+          </button>
+
+          <button
+            onClick={() => setShowEncryption(!showEncryption)}
+            title={passphrase ? 'Passphrase encryption on' : 'Passphrase encryption off'}
+            className="p-2 transition-opacity hover:opacity-60"
+            style={{ color: passphrase ? 'var(--text-primary)' : 'var(--text-secondary)' }}
+          >
+            <Lock size={18} />
+          </button>
+
+          <button
+            onClick={() => setCompressFiles(!compressFiles)}
+            title={compressFiles ? 'Compressing text-like files' : 'Sending files uncompressed'}
+            className="p-2 transition-opacity hover:opacity-60"
+            style={{ color: compressFiles ? 'var(--text-primary)' : 'var(--text-secondary)' }}
+          >
+            <Minimize2 size={18} />
+          </button>
+
+          {canPickSaveLocation() && (
+            <button
+              onClick={() => setAskWhereToSave(!askWhereToSave)}
+              title={askWhereToSave ? 'Asking where to save each file' : 'Saving received files automatically'}
+              className="p-2 transition-opacity hover:opacity-60"
+              style={{ color: askWhereToSave ? 'var(--text-primary)' : 'var(--text-secondary)' }}
+            >
+              <HardDriveDownload size={18} />
+            </button>
+          )}
+
           <button
             onClick={() => setSoundEnabled(!soundEnabled)}
             className="p-2 transition-opacity hover:opacity-60"
@@ -275,6 +964,7 @@ export default function App() {
               {status === 'connecting' && 'Connecting...'}
               {status === 'connected' && 'Connected'}
               {status === 'reconnecting' && 'Reconnecting...'}
+              {status === 'reconnecting-peer' && `Reconnecting to ${reconnectingPeers.join(', ')}...`}
               {status === 'error' && 'Connection error'}
             </span>
             {status === 'error' && (
@@ -288,8 +978,79 @@ export default function App() {
             )}
           </div>
 
+          {sharedQueue.length > 0 && (
+            <div className="flex items-center gap-2 -mt-4 mb-8 text-xs" style={{ color: 'var(--text-secondary)' }}>
+              <span className="flex-1">
+                {sharedQueue.length === 1 ? sharedQueue[0].file.name : `${sharedQueue.length} shared files`} will be sent once a device connects
+              </span>
+              <button
+                onClick={() => setSharedQueue([])}
+                title="Don't send"
+                className="p-1 hover:opacity-60"
+                style={{ color: 'var(--text-muted)' }}
+              >
+                <X size={14} />
+              </button>
+            </div>
+          )}
+
+          {showSettings && (
+            <ConnectionSettingsPanel
+              loadErrors={connectionSettings?.errors ?? []}
+              overriddenByLink={connectionSettings?.overriddenByLink ?? []}
+              onSaved={reloadConnectionSettings}
+              onClose={() => setShowSettings(false)}
+            />
+          )}
+
+          {showHistory && (
+            <TransferHistory
+              version={historyVersion}
+              keepFiles={keepReceivedFiles}
+              onKeepFilesChange={setKeepReceivedFiles}
+              onClose={() => setShowHistory(false)}
+            />
+          )}
+
+          {/* Passphrase Encryption */}
+          {showEncryption && (
+            <div className="mb-8">
+              <label className="text-xs uppercase tracking-wider mb-2 block" style={{ color: 'var(--text-muted)' }}>
+                Passphrase
+              </label>
+              <div className="flex items-center gap-3">
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => { setPassphrase(e.target.value); setLinkKey(null); }}
+                  placeholder="Optional, same on both devices"
+                  autoComplete="off"
+                  className="flex-1 bg-transparent text-sm font-mono py-1 border-b transition-colors focus:border-current"
+                  style={{ 
+                    borderColor: 'var(--border)',
+                    color: 'var(--text-primary)'
+                  }}
+                />
+                <button
+                  onClick={generatePassphrase}
+                  className="text-sm underline"
+                  style={{ color: 'var(--text-secondary)' }}
+                >
+                  Generate
+                </button>
+              </div>
+              <p className="text-xs mt-2" style={{ color: 'var(--text-muted)' }}>
+                {!passphrase
+                  ? 'Files are encrypted once more with this before they leave the browser.'
+                  : passphrase === linkKey
+                    ? 'Encrypting files. The key is in your share link and QR code, never sent to the server.'
+                    : 'Encrypting files. Only devices with the same passphrase can receive them.'}
+              </p>
+            </div>
+          )}
+
           {/* Not Connected State */}
-          {status !== 'connected' && (
+          {!inSession && (
             <>
               {/* My ID */}
               <div className="mb-8">
@@ -308,6 +1069,25 @@ export default function App() {
                     {copied ? <Check size={16} /> : <Copy size={16} />}
                   </button>
                 </div>
+                {usingTemporaryId && identity && (
+                  <p className="text-xs mt-1" style={{ color: 'var(--text-muted)' }}>
+                    <span className="font-mono">{identity.peerId}</span> is open in another tab, so this one has a temporary ID
+                  </p>
+                )}
+                {identity && (
+                  <input
+                    type="text"
+                    value={deviceNameInput}
+                    onChange={(e) => setDeviceNameInput(e.target.value)}
+                    onBlur={commitDeviceName}
+                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                    maxLength={MAX_DEVICE_NAME_LENGTH}
+                    title="The name other devices see for this one"
+                    placeholder="Device name"
+                    className="w-full mt-2 bg-transparent text-sm py-1 border-b border-transparent transition-colors focus:border-current"
+                    style={{ color: 'var(--text-secondary)' }}
+                  />
+                )}
               </div>
 
               {/* QR Code */}
@@ -366,30 +1146,80 @@ export default function App() {
                   </button>
                 </div>
               </div>
+
+              <TrustedDevices
+                devices={trustedDevices}
+                connectedPeers={connectedPeers}
+                canConnect={!!myId && status !== 'connecting'}
+                onConnect={connectToTrusted}
+                onToggleAutoAccept={toggleTrustedAutoAccept}
+                onRemove={forgetDevice}
+              />
             </>
           )}
 
           {/* Connected State */}
-          {status === 'connected' && (
+          {inSession && (
             <>
+              <RoomRoster
+                myId={myId}
+                connectedPeers={connectedPeers}
+                reconnectingPeers={reconnectingPeers}
+                excludedPeers={excludedPeers}
+                authStrings={authStrings}
+                remoteDevices={remoteDevices}
+                isVerified={isVerified}
+                isTrusted={isTrusted}
+                onTogglePeer={togglePeer}
+                onDisconnect={disconnectPeer}
+                onToggleVerified={toggleVerified}
+                onTrust={trustDevice}
+                remoteId={remoteId}
+                onRemoteIdChange={setRemoteId}
+                onConnect={handleConnect}
+              />
+
+              <TrustedDevices
+                devices={trustedDevices}
+                connectedPeers={connectedPeers}
+                canConnect={!!myId}
+                onConnect={connectToTrusted}
+                onToggleAutoAccept={toggleTrustedAutoAccept}
+                onRemove={forgetDevice}
+              />
+
               {/* Drop Zone */}
               <div
                 onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
                 onDragLeave={() => setIsDragging(false)}
                 onDrop={handleDrop}
-                onClick={() => fileInputRef.current?.click()}
+                onClick={() => recipients.length > 0 && fileInputRef.current?.click()}
                 className="py-16 text-center cursor-pointer transition-colors border-2 border-dashed mb-8"
                 style={{ 
                   borderColor: isDragging ? 'var(--text-primary)' : 'var(--border)',
-                  background: isDragging ? 'var(--bg-secondary)' : 'transparent'
+                  background: isDragging ? 'var(--bg-secondary)' : 'transparent',
+                  opacity: recipients.length > 0 ? 1 : 0.5
                 }}
               >
                 <p style={{ color: 'var(--text-secondary)' }}>
-                  {isDragging ? 'Drop files here' : 'Drop files or click to select'}
+                  {recipients.length === 0 ? 'Select a device to send to' :
+                   isDragging ? 'Drop files here' : 'Drop files or click to select'}
                 </p>
                 <p className="text-xs mt-2" style={{ color: 'var(--text-muted)' }}>
-                  Supports files of any size
+                  {recipients.length > 1
+                    ? `Sends to ${recipients.length} devices`
+                    : 'Supports files and folders of any size'}
                 </p>
+                {recipients.length > 0 && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); folderInputRef.current?.click(); }}
+                    className="inline-flex items-center gap-1 mt-3 text-xs underline"
+                    style={{ color: 'var(--text-secondary)' }}
+                  >
+                    <FolderOpen size={12} />
+                    Select a folder
+                  </button>
+                )}
               </div>
               
               <input
@@ -399,107 +1229,113 @@ export default function App() {
                 onChange={handleFileSelect}
                 className="hidden"
               />
+              <input
+                ref={setFolderInput}
+                type="file"
+                multiple
+                onChange={handleFolderSelect}
+                className="hidden"
+              />
+
+              <StagingTray
+                items={staged}
+                recipientCount={recipients.length}
+                imageOptions={imageOptions}
+                onImageOptionsChange={setImageOptions}
+                onMove={moveStaged}
+                onRemove={removeStaged}
+                onClear={clearStaged}
+                onSend={sendStaged}
+              />
+
+              <MessagesPanel
+                messages={messages}
+                draft={messageInput}
+                onDraftChange={setMessageInput}
+                disabled={recipients.length === 0}
+                onSubmit={submitMessage}
+                onPasteFiles={sendPasted}
+                onCopy={copyMessage}
+              />
+
+              <SendingList
+                files={files}
+                linkStats={linkStats}
+                connectedPeers={connectedPeers}
+                onTogglePause={togglePauseSend}
+                onRetry={retrySend}
+                onCancel={cancelSend}
+              />
 
-              {/* Sending Files */}
-              {files.length > 0 && (
+              <IncomingOffers
+                offers={offers}
+                authStrings={authStrings}
+                isVerified={isVerified}
+                onToggleVerified={toggleVerified}
+                onAnswer={answerOffer}
+                onAcceptAll={acceptAllOffers}
+              />
+
+              {/* Save Location Prompts */}
+              {pendingSaves.length > 0 && (
                 <div className="mb-8">
                   <label className="text-xs uppercase tracking-wider mb-3 block" style={{ color: 'var(--text-muted)' }}>
-                    Sending
+                    Incoming
                   </label>
-                  <div className="space-y-3">
-                    {files.map((f, i) => (
-                      <div key={i} className="flex items-center gap-3">
-                        <div className="flex-1 min-w-0">
-                          <p className="text-sm truncate" style={{ color: 'var(--text-primary)' }}>
-                            {f.file.name}
-                          </p>
-                          <div className="flex items-center gap-2 mt-1">
-                            <div className="flex-1 h-1" style={{ background: 'var(--border)' }}>
-                              <div 
-                                className="h-full progress-bar transition-all"
-                                style={{ width: `${f.progress}%` }}
-                              />
-                            </div>
-                            <span className="text-xs" style={{ color: 'var(--text-muted)' }}>
-                              {f.status === 'complete' ? '✓' : `${f.progress}%`}
-                            </span>
-                          </div>
-                        </div>
-                        {f.status === 'pending' && (
+                  <div className="space-y-4">
+                    {pendingSaves.map(pending => (
+                      <div key={pending.id}>
+                        <p className="text-sm truncate mb-3" style={{ color: 'var(--text-primary)' }}>
+                          {pending.target.fileName}
+                          <span className="ml-2 text-xs" style={{ color: 'var(--text-muted)' }}>
+                            {formatSize(pending.target.fileSize)}
+                          </span>
+                        </p>
+                        <div className="flex items-center gap-3">
                           <button
-                            onClick={() => setFiles(prev => prev.filter((_, idx) => idx !== i))}
-                            className="p-1 hover:opacity-60"
-                            style={{ color: 'var(--text-muted)' }}
+                            onClick={() => chooseSaveLocation(pending)}
+                            className="px-4 py-2 text-sm transition-opacity hover:opacity-70"
+                            style={{ background: 'var(--text-primary)', color: 'var(--bg-primary)' }}
                           >
-                            <X size={14} />
+                            Choose location
                           </button>
-                        )}
+                          <button
+                            onClick={() => saveToDefaultLocation(pending)}
+                            className="text-sm underline"
+                            style={{ color: 'var(--text-secondary)' }}
+                          >
+                            Save normally
+                          </button>
+                        </div>
                       </div>
                     ))}
                   </div>
                 </div>
               )}
 
-              {/* Receiving File */}
-              {isReceiving && (
-                <div className="mb-8">
-                  <label className="text-xs uppercase tracking-wider mb-3 block" style={{ color: 'var(--text-muted)' }}>
-                    Receiving
-                  </label>
-                  <div className="flex items-center gap-2">
-                    <div className="flex-1 h-1" style={{ background: 'var(--border)' }}>
-                      <div 
-                        className="h-full progress-bar transition-all"
-                        style={{ width: `${receiveProgress}%` }}
-                      />
-                    </div>
-                    <span className="text-xs" style={{ color: 'var(--text-muted)' }}>
-                      {receiveProgress}%
-                    </span>
-                  </div>
-                </div>
+              {watched && (
+                <ProgressivePlayer
+                  source={watched.source}
+                  progress={watched.file.progress}
+                  onClose={stopWatching}
+                />
               )}
 
-              {/* Received File */}
-              {receivedFile && (
-                <div className="mb-8">
-                  <label className="text-xs uppercase tracking-wider mb-3 block" style={{ color: 'var(--text-muted)' }}>
-                    Received
-                  </label>
-                  <div className="flex items-center justify-between">
-                    <div className="min-w-0">
-                      <p className="text-sm truncate" style={{ color: 'var(--text-primary)' }}>
-                        {receivedFile.name}
-                      </p>
-                      <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
-                        {formatSize(receivedFile.blob.size)}
-                      </p>
-                    </div>
-                    <button
-                      onClick={downloadFile}
-                      className="flex items-center gap-2 px-4 py-2 text-sm transition-opacity hover:opacity-70"
-                      style={{ 
-                        background: 'var(--text-primary)',
-                        color: 'var(--bg-primary)'
-                      }}
-                    >
-                      <Download size={14} />
-                      Download
-                    </button>
-                  </div>
-                  
-                  {/* Image Preview */}
-                  {receivedFile.type.startsWith('image/') && (
-                    <div className="mt-4">
-                      <img 
-                        src={URL.createObjectURL(receivedFile.blob)} 
-                        alt={receivedFile.name}
-                        className="max-w-full max-h-48 object-contain"
-                      />
-                    </div>
-                  )}
-                </div>
-              )}
+              <ReceivingList
+                files={receivedFiles}
+                linkStats={linkStats}
+                connectedPeers={connectedPeers}
+                watchingId={watched?.file.id ?? null}
+                onWatch={watchReceive}
+                onTogglePause={togglePauseReceive}
+                onCancel={cancelReceive}
+              />
+
+              <ReceivedList
+                files={receivedFiles}
+                onCopyHash={copyHash}
+                onDownload={downloadFile}
+              />
             </>
           )}
 
@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import {
+  ConnectionSettings,
+  MAX_PARALLEL_CONNECTIONS,
+  clearSavedSettings,
+  formatIceServerLines,
+  parseIceServerLines,
+  readSavedSettings,
+  saveSettings,
+  validateSettings
+} from '@/utils/peerConfig';
+
+interface ConnectionSettingsPanelProps {
+  // Problems found when the settings in use were loaded
+  loadErrors: string[];
+  // Saved settings that the page's link parameters are replacing for now
+  overriddenByLink: string[];
+  // Called after the saved settings change, so the app can reload them and reconnect
+  onSaved: () => void;
+  onClose: () => void;
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="block mb-3">
+      <span className="text-xs block mb-1" style={{ color: 'var(--text-muted)' }}>{label}</span>
+      {children}
+    </label>
+  );
+}
+
+const inputClass = 'w-full bg-transparent text-sm font-mono py-1 border-b transition-colors focus:border-current';
+const inputStyle = { borderColor: 'var(--border)', color: 'var(--text-primary)' };
+
+export function ConnectionSettingsPanel({ loadErrors, overriddenByLink, onSaved, onClose }: ConnectionSettingsPanelProps) {
+  // The form edits what the user saved; the config file and link parameters are layered on top
+  const [saved] = useState<ConnectionSettings>(() => readSavedSettings().settings);
+  const [host, setHost] = useState(saved.host ?? '');
+  const [port, setPort] = useState(saved.port ? String(saved.port) : '');
+  const [path, setPath] = useState(saved.path ?? '');
+  const [key, setKey] = useState(saved.key ?? '');
+  const [secure, setSecure] = useState(saved.secure ?? true);
+  const [iceLines, setIceLines] = useState(() => formatIceServerLines(saved.iceServers));
+  const [parallelConnections, setParallelConnections] = useState(saved.parallelConnections ?? 1);
+  const [relayUrl, setRelayUrl] = useState(saved.relayUrl ?? '');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const save = () => {
+    const { settings, errors: problems } = validateSettings({
+      host: host.trim(),
+      port: port.trim(),
+      path: path.trim(),
+      key: key.trim(),
+      // Only meaningful alongside a custom server
+      secure: host.trim() ? secure : undefined,
+      iceServers: parseIceServerLines(iceLines),
+      parallelConnections: parallelConnections > 1 ? parallelConnections : undefined,
+      relayUrl: relayUrl.trim()
+    }, 'Settings');
+
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    saveSettings(settings);
+    onSaved();
+  };
+
+  const reset = () => {
+    clearSavedSettings();
+    setHost('');
+    setPort('');
+    setPath('');
+    setKey('');
+    setSecure(true);
+    setIceLines('');
+    setParallelConnections(1);
+    setRelayUrl('');
+    setErrors([]);
+    onSaved();
+  };
+
+  const shownErrors = errors.length > 0 ? errors : loadErrors;
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-3">
+        <label className="text-xs uppercase tracking-wider" style={{ color: 'var(--text-muted)' }}>
+          Connection settings
+        </label>
+        <button
+          onClick={onClose}
+          className="p-1 hover:opacity-60"
+          style={{ color: 'var(--text-muted)' }}
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <p className="text-xs mb-4" style={{ color: 'var(--text-muted)' }}>
+        Leave the server empty to use the public PeerJS server. Values from the link you opened win over these for this visit.
+      </p>
+
+      <Field label="Signaling host">
+        <input value={host} onChange={(e) => setHost(e.target.value)} placeholder="peer.example.com" className={inputClass} style={inputStyle} />
+      </Field>
+      <div className="flex gap-4">
+        <Field label="Port">
+          <input value={port} onChange={(e) => setPort(e.target.value)} placeholder="443" inputMode="numeric" className={inputClass} style={inputStyle} />
+        </Field>
+        <Field label="Path">
+          <input value={path} onChange={(e) => setPath(e.target.value)} placeholder="/" className={inputClass} style={inputStyle} />
+        </Field>
+        <Field label="Key">
+          <input value={key} onChange={(e) => setKey(e.target.value)} placeholder="peerjs" className={inputClass} style={inputStyle} />
+        </Field>
+      </div>
+      <label className="flex items-center gap-2 mb-4 text-xs cursor-pointer" style={{ color: 'var(--text-secondary)' }}>
+        <input type="checkbox" checked={secure} onChange={(e) => setSecure(e.target.checked)} />
+        Use TLS (wss/https)
+      </label>
+
+      <Field label="ICE servers, one per line: url[,url] [username credential]">
+        <textarea
+          value={iceLines}
+          onChange={(e) => setIceLines(e.target.value)}
+          rows={3}
+          placeholder={'stun:stun.example.com:3478\nturn:turn.example.com:3478 alice s3cret'}
+          className={`${inputClass} resize-y`}
+          style={inputStyle}
+        />
+      </Field>
+
+      <Field label="Connections per device, for faster transfers on fast links">
+        <select
+          value={parallelConnections}
+          onChange={(e) => setParallelConnections(Number(e.target.value))}
+          className={inputClass}
+          style={inputStyle}
+        >
+          {Array.from({ length: MAX_PARALLEL_CONNECTIONS }, (_, i) => i + 1).map(count => (
+            <option key={count} value={count}>{count === 1 ? '1 (default)' : count}</option>
+          ))}
+        </select>
+      </Field>
+
+      <Field label="Relay, used when no direct connection can be made (see relay/server.js)">
+        <input value={relayUrl} onChange={(e) => setRelayUrl(e.target.value)} placeholder="wss://relay.example.com" className={inputClass} style={inputStyle} />
+      </Field>
+
+      {overriddenByLink.length > 0 && (
+        <p className="text-xs mb-4" style={{ color: 'var(--text-secondary)' }}>
+          The link this page was opened with sets its own {overriddenByLink.join(', ')}, used instead of what's saved here.
+        </p>
+      )}
+
+      {shownErrors.length > 0 && (
+        <ul className="text-xs mb-4 space-y-1" style={{ color: 'var(--error)' }}>
+          {shownErrors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={save}
+          className="px-4 py-2 text-sm transition-opacity hover:opacity-70"
+          style={{ background: 'var(--text-primary)', color: 'var(--bg-primary)' }}
+        >
+          Save and reconnect
+        </button>
+        <button
+          onClick={reset}
+          className="text-sm underline"
+          style={{ color: 'var(--text-secondary)' }}
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Eye, EyeOff } from 'lucide-react';
+import { useObjectUrl } from '@/hooks/useObjectUrl';
+import { TokenKind, canHighlight, highlight } from '@/utils/syntaxHighlight';
+import { formatSize } from '@/utils/format';
+
+type PreviewKind = 'image' | 'video' | 'audio' | 'pdf' | 'text';
+
+// Text past this isn't read, so a huge log can't stall the page
+const MAX_TEXT_PREVIEW_BYTES = 256 * 1024;
+
+const TEXT_TYPES = ['application/json', 'application/xml', 'application/javascript', 'application/sql', 'application/x-sh', 'application/x-yaml', 'application/toml'];
+const TEXT_EXTENSIONS = ['txt', 'md', 'log', 'csv', 'tsv'];
+
+const TOKEN_STYLES: Record<TokenKind, React.CSSProperties> = {
+  plain: {},
+  comment: { color: 'var(--text-secondary)', fontStyle: 'italic' },
+  string: { color: 'var(--success)' },
+  number: { color: 'var(--accent-secondary)' },
+  keyword: { fontWeight: 600 }
+};
+
+// SVG counts as text: as an image, its blob URL opened in a new tab would run its scripts as this page
+function getPreviewKind(type: string, fileName: string): PreviewKind | null {
+  const extension = fileName.slice(fileName.lastIndexOf('.') + 1).toLowerCase();
+  if (type === 'image/svg+xml') return 'text';
+  if (type.startsWith('image/')) return 'image';
+  if (type.startsWith('video/')) return 'video';
+  if (type.startsWith('audio/')) return 'audio';
+  if (type === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (type.startsWith('text/') || TEXT_TYPES.includes(type) || /\+(json|xml)$/.test(type)) return 'text';
+  if (TEXT_EXTENSIONS.includes(extension) || canHighlight(fileName)) return 'text';
+  return null;
+}
+
+function MediaPreview({ file, name, kind }: { file: File; name: string; kind: 'image' | 'video' | 'audio' }) {
+  const url = useObjectUrl(file);
+  if (!url) return null;
+
+  if (kind === 'image') {
+    return <img src={url} alt={name} className="max-w-full max-h-48 object-contain" />;
+  }
+  if (kind === 'video') {
+    return <video src={url} controls playsInline preload="metadata" className="max-w-full max-h-72" />;
+  }
+  return <audio src={url} controls preload="metadata" className="w-full" />;
+}
+
+function PdfPreview({ file }: { file: File }) {
+  // The browser's viewer goes by the blob's type, which the sender may not have set
+  const pdf = useMemo(() => file.type === 'application/pdf' ? file : new Blob([file], { type: 'application/pdf' }), [file]);
+  const url = useObjectUrl(pdf);
+  if (!url) return null;
+
+  return (
+    <object data={url} type="application/pdf" className="w-full h-96 border" style={{ borderColor: 'var(--border)' }}>
+      <p className="text-xs p-3" style={{ color: 'var(--text-muted)' }}>
+        This browser can't show PDFs here. Download the file to open it.
+      </p>
+    </object>
+  );
+}
+
+function TextPreview({ file, name }: { file: File; name: string }) {
+  const [text, setText] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    file.slice(0, MAX_TEXT_PREVIEW_BYTES).text().then(
+      value => !cancelled && setText(value),
+      () => !cancelled && setText('')
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const tokens = useMemo(() => text === null ? [] : highlight(text, name), [text, name]);
+  if (text === null) return null;
+
+  return (
+    <>
+      <pre
+        className="p-3 text-xs font-mono overflow-auto max-h-96 border"
+        style={{ borderColor: 'var(--border)', color: 'var(--text-primary)' }}
+      >
+        {tokens.map((token, i) => token.kind === 'plain'
+          ? token.text
+          : <span key={i} style={TOKEN_STYLES[token.kind]}>{token.text}</span>
+        )}
+      </pre>
+      {file.size > MAX_TEXT_PREVIEW_BYTES && (
+        <p className="text-xs mt-1" style={{ color: 'var(--text-muted)' }}>
+          Showing the first {formatSize(MAX_TEXT_PREVIEW_BYTES)} of {formatSize(file.size)}
+        </p>
+      )}
+    </>
+  );
+}
+
+interface FilePreviewProps {
+  file: File;
+  name: string;
+  // The type the sender gave, which wins over the File's own when set
+  type: string;
+}
+
+// Renders a received file in the page, picked by its MIME type. Images and
+// players show straight away; PDFs and text wait for a click, as they're heavier.
+export function FilePreview({ file, name, type }: FilePreviewProps) {
+  const [open, setOpen] = useState(false);
+  const kind = getPreviewKind(type || file.type, name);
+  if (!kind) return null;
+
+  if (kind === 'image' || kind === 'video' || kind === 'audio') {
+    return (
+      <div className="mt-4">
+        <MediaPreview file={file} name={name} kind={kind} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 mb-2 text-xs transition-opacity hover:opacity-60"
+        style={{ color: 'var(--text-secondary)' }}
+      >
+        {open ? <EyeOff size={12} /> : <Eye size={12} />}
+        {open ? 'Hide preview' : 'Preview'}
+      </button>
+      {open && (kind === 'pdf' ? <PdfPreview file={file} /> : <TextPreview file={file} name={name} />)}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { ShieldAlert } from 'lucide-react';
+import type { IncomingOffer } from '@/utils/fileTransfer';
+import type { ShortAuthString } from '@/utils/sas';
+import { formatSize } from '@/utils/format';
+
+export interface PeerOffer extends IncomingOffer {
+  peerId: string;
+}
+
+interface IncomingOffersProps {
+  offers: PeerOffer[];
+  authStrings: Record<string, ShortAuthString>;
+  // Offers from a peer whose code wasn't confirmed can only be declined
+  isVerified: (peerId: string) => boolean;
+  onToggleVerified: (peerId: string) => void;
+  onAnswer: (offer: PeerOffer, accept: boolean) => void;
+  onAcceptAll: (peerId: string) => void;
+}
+
+// Files peers want to send, waiting for the user to take or turn them down
+export function IncomingOffers({ offers, authStrings, isVerified, onToggleVerified, onAnswer, onAcceptAll }: IncomingOffersProps) {
+  if (offers.length === 0) return null;
+
+  return (
+    <div className="mb-8">
+      <label className="text-xs uppercase tracking-wider mb-3 block" style={{ color: 'var(--text-muted)' }}>
+        Wants to send you
+      </label>
+      <div className="space-y-6">
+        {offers.map(offer => (
+          <div key={offer.offerId}>
+            <p className="text-xs font-mono mb-2" style={{ color: 'var(--text-muted)' }}>
+              from {offer.peerId}
+            </p>
+            <div className="space-y-2 mb-3">
+              {offer.files.map(f => (
+                <div key={f.transferId} className="flex items-center gap-3">
+                  {f.thumbnail ? (
+                    <img src={f.thumbnail} alt="" className="w-10 h-10 object-cover flex-shrink-0" />
+                  ) : (
+                    <div className="w-10 h-10 flex-shrink-0" style={{ background: 'var(--border)' }} />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm truncate" style={{ color: 'var(--text-primary)' }}>
+                      {f.relativePath ?? f.fileName}
+                    </p>
+                    <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                      {formatSize(f.fileSize)}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+            {!isVerified(offer.peerId) && (
+              <div className="flex items-center gap-3 mb-3 text-xs" style={{ color: 'var(--text-secondary)' }}>
+                <ShieldAlert size={14} className="flex-shrink-0" />
+                <span className="flex-1">
+                  {authStrings[offer.peerId]
+                    ? <>Check the sender sees <span className="text-sm tracking-widest">{authStrings[offer.peerId].symbols.map(s => s.emoji).join('')}</span> before accepting</>
+                    : 'Waiting for a verification code…'}
+                </span>
+                {authStrings[offer.peerId] && (
+                  <button
+                    onClick={() => onToggleVerified(offer.peerId)}
+                    className="underline flex-shrink-0"
+                    style={{ color: 'var(--text-secondary)' }}
+                  >
+                    Codes match
+                  </button>
+                )}
+              </div>
+            )}
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => onAnswer(offer, true)}
+                disabled={!isVerified(offer.peerId)}
+                className="px-4 py-2 text-sm transition-opacity hover:opacity-70 disabled:opacity-30"
+                style={{ background: 'var(--text-primary)', color: 'var(--bg-primary)' }}
+              >
+                Accept
+              </button>
+              <button
+                onClick={() => onAnswer(offer, false)}
+                className="px-4 py-2 text-sm transition-opacity hover:opacity-70"
+                style={{ color: 'var(--text-secondary)', border: '1px solid var(--border)' }}
+              >
+                Decline
+              </button>
+              <button
+                onClick={() => onAcceptAll(offer.peerId)}
+                disabled={!isVerified(offer.peerId)}
+                title="Accept this and anything else this device sends while connected"
+                className="text-sm underline disabled:opacity-30"
+                style={{ color: 'var(--text-secondary)' }}
+              >
+                Accept all
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useRef } from 'react';
+import { Send } from 'lucide-react';
+
+export interface ChatMessage {
+  id: string;
+  direction: 'in' | 'out';
+  peers: string[]; // sender, or everyone it went to
+  text: string;
+  sentAt: number;
+}
+
+interface MessagesPanelProps {
+  messages: ChatMessage[];
+  draft: string;
+  onDraftChange: (draft: string) => void;
+  // Nobody is selected to send to
+  disabled: boolean;
+  onSubmit: () => void;
+  // In the message box only files are taken over; pasted text lands in the box as usual
+  onPasteFiles: (data: DataTransfer) => void;
+  onCopy: (message: ChatMessage) => void;
+}
+
+const URL_PATTERN = /(https?:\/\/[^\s<>"']+)/g;
+
+// Splits text into plain runs and clickable links
+function linkify(text: string) {
+  return text.split(URL_PATTERN).map((part, i) => i % 2 === 1 ? (
+    <a
+      key={i}
+      href={part}
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={(e) => e.stopPropagation()}
+      className="underline"
+    >
+      {part}
+    </a>
+  ) : part);
+}
+
+// The conversation with everyone in the room, and the box to add to it
+export function MessagesPanel({ messages, draft, onDraftChange, disabled, onSubmit, onPasteFiles, onCopy }: MessagesPanelProps) {
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages.length]);
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    if (e.clipboardData.files.length === 0) return;
+    e.preventDefault();
+    onPasteFiles(e.clipboardData);
+  };
+
+  return (
+    <div className="mb-8">
+      <label className="text-xs uppercase tracking-wider mb-3 block" style={{ color: 'var(--text-muted)' }}>
+        Messages
+      </label>
+      {messages.length > 0 && (
+        <div className="max-h-64 overflow-y-auto space-y-3 mb-3">
+          {messages.map(message => (
+            <div
+              key={`${message.direction}-${message.id}`}
+              className={message.direction === 'out' ? 'text-right' : ''}
+            >
+              <p className="text-xs font-mono mb-1" style={{ color: 'var(--text-muted)' }}>
+                {message.direction === 'out' ? `→ ${message.peers.join(', ')}` : message.peers[0]}
+                {' · '}
+                {new Date(message.sentAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </p>
+              {/* Not a <button>, since it can hold links */}
+              <div
+                onClick={() => onCopy(message)}
+                title="Click to copy"
+                className="inline-block max-w-full px-3 py-2 text-sm text-left whitespace-pre-wrap break-words cursor-pointer transition-opacity hover:opacity-80"
+                style={{
+                  background: message.direction === 'out' ? 'var(--text-primary)' : 'var(--bg-secondary)',
+                  color: message.direction === 'out' ? 'var(--bg-primary)' : 'var(--text-primary)'
+                }}
+              >
+                {linkify(message.text)}
+              </div>
+            </div>
+          ))}
+          <div ref={endRef} />
+        </div>
+      )}
+      <div className="flex items-end gap-3">
+        <textarea
+          value={draft}
+          onChange={(e) => onDraftChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              onSubmit();
+            }
+          }}
+          onPaste={handlePaste}
+          disabled={disabled}
+          rows={1}
+          placeholder="Type or paste a link, code or image"
+          className="flex-1 bg-transparent text-sm py-1 border-b resize-none transition-colors focus:border-current disabled:opacity-50"
+          style={{
+            borderColor: 'var(--border)',
+            color: 'var(--text-primary)'
+          }}
+        />
+        <button
+          onClick={onSubmit}
+          disabled={disabled || !draft.trim()}
+          className="p-1 transition-opacity hover:opacity-60 disabled:opacity-30"
+          style={{ color: 'var(--text-primary)' }}
+        >
+          <Send size={16} />
+        </button>
+      </div>
+    </div>
+  );
+}
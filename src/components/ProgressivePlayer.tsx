@@ -0,0 +1,113 @@
+import { useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import type { ReceivingFile } from '@/utils/fileTransfer';
+import { PlaybackMode, ProgressivePlayback } from '@/utils/progressivePlayback';
+
+interface PlaybackState {
+  currentTime: number;
+  duration: number;
+  buffered: [number, number][];
+}
+
+function formatTime(seconds: number): string {
+  const whole = Math.floor(seconds);
+  const minutes = Math.floor(whole / 60);
+  const hours = Math.floor(minutes / 60);
+  const ss = String(whole % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes % 60).padStart(2, '0')}:${ss}` : `${minutes}:${ss}`;
+}
+
+interface ProgressivePlayerProps {
+  source: ReceivingFile;
+  // Download progress in percent
+  progress: number;
+  onClose: () => void;
+}
+
+// Plays a file that's still arriving. The bar shows how far the download has got,
+// what the player has buffered of it, and where playback is.
+export function ProgressivePlayer({ source, progress, onClose }: ProgressivePlayerProps) {
+  const mediaRef = useRef<HTMLVideoElement & HTMLAudioElement>(null);
+  const [mode, setMode] = useState<PlaybackMode | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [playback, setPlayback] = useState<PlaybackState>({ currentTime: 0, duration: NaN, buffered: [] });
+  const isAudio = source.fileType.startsWith('audio/');
+
+  useEffect(() => {
+    const media = mediaRef.current;
+    if (!media) return;
+
+    const playbackSession = new ProgressivePlayback(source);
+    playbackSession.start(media).then(
+      started => started ? setMode(started) : setError("This browser can only play it once it's fully received."),
+      err => setError(err instanceof Error ? err.message : 'Playback failed')
+    );
+
+    const update = () => {
+      const buffered: [number, number][] = [];
+      for (let i = 0; i < media.buffered.length; i++) {
+        buffered.push([media.buffered.start(i), media.buffered.end(i)]);
+      }
+      setPlayback({ currentTime: media.currentTime, duration: media.duration, buffered });
+    };
+    const fail = () => setError("The file couldn't be played as it arrives. It will play once it's fully received.");
+    const events = ['progress', 'timeupdate', 'durationchange', 'seeked'];
+    events.forEach(type => media.addEventListener(type, update));
+    media.addEventListener('error', fail);
+
+    return () => {
+      events.forEach(type => media.removeEventListener(type, update));
+      media.removeEventListener('error', fail);
+      playbackSession.destroy();
+      media.removeAttribute('src');
+      media.load();
+    };
+  }, [source]);
+
+  const { currentTime, duration, buffered } = playback;
+  const timed = Number.isFinite(duration) && duration > 0;
+  const toPercent = (seconds: number) => `${Math.min(seconds / duration, 1) * 100}%`;
+  const bufferedEnd = buffered.find(([start, end]) => start <= currentTime && currentTime <= end)?.[1] ?? currentTime;
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <label className="text-xs uppercase tracking-wider truncate" style={{ color: 'var(--text-muted)' }}>
+          Watching · {source.fileName}
+        </label>
+        <button onClick={onClose} title="Stop watching" className="p-1 hover:opacity-60" style={{ color: 'var(--text-muted)' }}>
+          <X size={14} />
+        </button>
+      </div>
+
+      {isAudio ? (
+        <audio ref={mediaRef} controls autoPlay className="w-full" />
+      ) : (
+        <video ref={mediaRef} controls autoPlay playsInline className="w-full max-h-96" style={{ background: '#000' }} />
+      )}
+
+      <div className="relative h-1 mt-3" style={{ background: 'var(--border)' }}>
+        <div className="absolute inset-y-0 left-0" style={{ width: `${progress}%`, background: 'var(--text-muted)' }} />
+        {timed && buffered.map(([start, end]) => (
+          <div
+            key={start}
+            className="absolute inset-y-0"
+            style={{ left: toPercent(start), width: toPercent(end - start), background: 'var(--accent-secondary)' }}
+          />
+        ))}
+        {timed && (
+          <div className="absolute -top-1 w-0.5 h-3" style={{ left: toPercent(currentTime), background: 'var(--text-primary)' }} />
+        )}
+      </div>
+      <p className="text-xs mt-2" style={{ color: error ? 'var(--error)' : 'var(--text-muted)' }}>
+        {error ?? (
+          <>
+            Received {progress}% · buffered to {formatTime(bufferedEnd)}
+            {timed && ` of ${formatTime(duration)}`}
+            {mode === 'range-stream' && ' · seeking ahead waits for that part to arrive'}
+          </>
+        )}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { Download, ShieldCheck } from 'lucide-react';
+import { formatSize } from '@/utils/format';
+import { FilePreview } from './FilePreview';
+import type { ReceivedFile } from './ReceivingList';
+
+interface ReceivedListProps {
+  // Only complete files are listed; the rest are under Receiving
+  files: ReceivedFile[];
+  onCopyHash: (file: ReceivedFile) => void;
+  // Files kept in memory; the others already went to disk, downloads or a ZIP
+  onDownload: (file: ReceivedFile) => void;
+}
+
+// Files that arrived, with their checksum, where they went and a preview
+export function ReceivedList({ files, onCopyHash, onDownload }: ReceivedListProps) {
+  const complete = files.filter(f => f.status === 'complete');
+  if (complete.length === 0) return null;
+
+  return (
+    <div className="mb-8">
+      <label className="text-xs uppercase tracking-wider mb-3 block" style={{ color: 'var(--text-muted)' }}>
+        Received
+      </label>
+      <div className="space-y-6">
+        {complete.map(receivedFile => (
+          <div key={receivedFile.id}>
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm truncate" style={{ color: 'var(--text-primary)' }}>
+                  {receivedFile.relativePath ?? receivedFile.name}
+                </p>
+                <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                  {formatSize(receivedFile.size)} · from <span className="font-mono">{receivedFile.peerId}</span>
+                </p>
+                {receivedFile.hash && (
+                  <button
+                    onClick={() => onCopyHash(receivedFile)}
+                    title={`SHA-256 ${receivedFile.hash}`}
+                    className="flex items-center gap-1 mt-1 text-xs font-mono transition-opacity hover:opacity-60"
+                    style={{ color: 'var(--success)' }}
+                  >
+                    <ShieldCheck size={12} />
+                    Verified · {receivedFile.hash.slice(0, 16)}…
+                  </button>
+                )}
+              </div>
+              {receivedFile.storage === 'file-system' || receivedFile.storage === 'service-worker' || receivedFile.storage === 'zip' ? (
+                <span className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                  {receivedFile.storage === 'file-system' ? 'Saved' :
+                   receivedFile.storage === 'zip' ? 'Added to ZIP' : 'Saved to downloads'}
+                </span>
+              ) : (
+                <button
+                  onClick={() => onDownload(receivedFile)}
+                  className="flex items-center gap-2 px-4 py-2 text-sm transition-opacity hover:opacity-70"
+                  style={{
+                    background: 'var(--text-primary)',
+                    color: 'var(--bg-primary)'
+                  }}
+                >
+                  <Download size={14} />
+                  Download
+                </button>
+              )}
+            </div>
+
+            {receivedFile.file && (
+              <FilePreview file={receivedFile.file} name={receivedFile.name} type={receivedFile.type} />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { MonitorPlay, Pause, Play, X } from 'lucide-react';
+import type { LinkStats } from '@/utils/connectionStats';
+import type { StorageKind } from '@/utils/receiveStorage';
+import type { TransferStats } from '@/utils/transferStats';
+import { canWatchWhileReceiving } from '@/utils/progressivePlayback';
+import { TransferStatsLine } from './TransferStatsLine';
+
+export interface ReceivedFile {
+  id: string; // transferId
+  peerId: string; // sender
+  name: string;
+  relativePath?: string;
+  type: string;
+  size: number;
+  progress: number;
+  status: 'receiving' | 'complete' | 'cancelled' | 'error';
+  paused?: boolean;
+  stats?: TransferStats;
+  file: File | null;
+  hash: string | null;
+  storage: StorageKind | null;
+}
+
+interface ReceivingListProps {
+  // Complete files are left out; they're listed under Received
+  files: ReceivedFile[];
+  linkStats: Record<string, LinkStats>;
+  // Peers with an open connection, whose transfers can still be paused, cancelled or watched
+  connectedPeers: string[];
+  // The file being played while it arrives, if any
+  watchingId: string | null;
+  onWatch: (file: ReceivedFile) => void;
+  onTogglePause: (file: ReceivedFile) => void;
+  onCancel: (file: ReceivedFile) => void;
+}
+
+// Incoming files that haven't completed, with their progress and controls
+export function ReceivingList({
+  files,
+  linkStats,
+  connectedPeers,
+  watchingId,
+  onWatch,
+  onTogglePause,
+  onCancel
+}: ReceivingListProps) {
+  const incomplete = files.filter(f => f.status !== 'complete');
+  if (incomplete.length === 0) return null;
+
+  return (
+    <div className="mb-8">
+      <label className="text-xs uppercase tracking-wider mb-3 block" style={{ color: 'var(--text-muted)' }}>
+        Receiving
+      </label>
+      <div className="space-y-3">
+        {incomplete.map(f => {
+          const controllable = f.status === 'receiving' && connectedPeers.includes(f.peerId);
+          return (
+            <div key={f.id} className="flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm truncate" style={{ color: 'var(--text-primary)' }}>
+                  {f.relativePath ?? f.name}
+                </p>
+                <div className="flex items-center gap-2 mt-1">
+                  <div className="flex-1 h-1" style={{ background: 'var(--border)' }}>
+                    <div
+                      className="h-full progress-bar transition-all"
+                      style={{ width: `${f.progress}%` }}
+                    />
+                  </div>
+                  <span
+                    className="text-xs"
+                    style={{ color: f.status === 'error' ? 'var(--error)' : 'var(--text-muted)' }}
+                  >
+                    {f.status === 'error' ? 'Failed' :
+                     f.status === 'cancelled' ? 'Cancelled' :
+                     f.paused ? 'Paused' : `${f.progress}%`}
+                  </span>
+                </div>
+                {f.status === 'receiving' && !f.paused && (
+                  <TransferStatsLine stats={f.stats} link={linkStats[f.peerId]} />
+                )}
+              </div>
+              {controllable && (
+                <>
+                  {canWatchWhileReceiving(f.type, f.name) && watchingId !== f.id && (
+                    <button
+                      onClick={() => onWatch(f)}
+                      title="Watch now"
+                      className="p-1 hover:opacity-60"
+                      style={{ color: 'var(--text-secondary)' }}
+                    >
+                      <MonitorPlay size={14} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onTogglePause(f)}
+                    title={f.paused ? 'Resume' : 'Pause'}
+                    className="p-1 hover:opacity-60"
+                    style={{ color: 'var(--text-secondary)' }}
+                  >
+                    {f.paused ? <Play size={14} /> : <Pause size={14} />}
+                  </button>
+                  <button
+                    onClick={() => onCancel(f)}
+                    title="Cancel and delete what arrived so far"
+                    className="p-1 hover:opacity-60"
+                    style={{ color: 'var(--text-muted)' }}
+                  >
+                    <X size={14} />
+                  </button>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { ArrowRight, Check, ShieldAlert, ShieldCheck, Star, X } from 'lucide-react';
+import type { RemoteDevice } from '@/utils/deviceIdentity';
+import type { ShortAuthString } from '@/utils/sas';
+
+interface RoomRosterProps {
+  myId: string | null;
+  // Peers with an open connection
+  connectedPeers: string[];
+  // Dropped peers still being retried
+  reconnectingPeers: string[];
+  // Peers left out of the next send
+  excludedPeers: string[];
+  authStrings: Record<string, ShortAuthString>;
+  remoteDevices: Record<string, RemoteDevice>;
+  isVerified: (peerId: string) => boolean;
+  isTrusted: (peerId: string) => boolean;
+  onTogglePeer: (peerId: string) => void;
+  onDisconnect: (peerId: string) => void;
+  onToggleVerified: (peerId: string) => void;
+  onTrust: (peerId: string) => void;
+  // The box to bring another device into the room
+  remoteId: string;
+  onRemoteIdChange: (remoteId: string) => void;
+  onConnect: () => void;
+}
+
+// Everyone in the room, with their verification code, and a box to add another device
+export function RoomRoster({
+  myId,
+  connectedPeers,
+  reconnectingPeers,
+  excludedPeers,
+  authStrings,
+  remoteDevices,
+  isVerified,
+  isTrusted,
+  onTogglePeer,
+  onDisconnect,
+  onToggleVerified,
+  onTrust,
+  remoteId,
+  onRemoteIdChange,
+  onConnect
+}: RoomRosterProps) {
+  return (
+    <div className="mb-8">
+      <label className="text-xs uppercase tracking-wider mb-3 block" style={{ color: 'var(--text-muted)' }}>
+        Devices · {myId}
+      </label>
+      <div className="space-y-2">
+        {connectedPeers.map(peerId => {
+          const selected = !excludedPeers.includes(peerId);
+          const sas = authStrings[peerId];
+          const verified = isVerified(peerId);
+          const remote = remoteDevices[peerId];
+          const trusted = isTrusted(peerId);
+          return (
+            <div key={peerId}>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => onTogglePeer(peerId)}
+                  title={selected ? 'Receives the next files you send' : 'Left out of the next send'}
+                  className="w-4 h-4 flex items-center justify-center border transition-opacity hover:opacity-60"
+                  style={{
+                    borderColor: selected ? 'var(--text-primary)' : 'var(--border)',
+                    color: 'var(--text-primary)'
+                  }}
+                >
+                  {selected && <Check size={12} />}
+                </button>
+                <span className="flex-1 text-sm truncate" style={{ color: 'var(--text-primary)' }}>
+                  {remote && <span className="mr-2">{remote.deviceName}</span>}
+                  <span className="font-mono" style={{ color: remote ? 'var(--text-muted)' : undefined }}>{peerId}</span>
+                </span>
+                <button
+                  onClick={() => onDisconnect(peerId)}
+                  title="Disconnect"
+                  className="p-1 hover:opacity-60"
+                  style={{ color: 'var(--text-muted)' }}
+                >
+                  <X size={14} />
+                </button>
+              </div>
+              {sas && (
+                <div className="flex items-center gap-3 mt-1 pl-7">
+                  <span
+                    title={sas.symbols.map(s => s.name).join(' · ')}
+                    className="text-sm tracking-widest"
+                  >
+                    {sas.symbols.map(s => s.emoji).join('')}
+                  </span>
+                  <button
+                    onClick={() => onToggleVerified(peerId)}
+                    title={verified
+                      ? 'Click to mark as unverified'
+                      : 'Check the other screen shows the same symbols, then click'}
+                    className="flex items-center gap-1 text-xs transition-opacity hover:opacity-60"
+                    style={{ color: verified ? 'var(--success)' : 'var(--text-secondary)' }}
+                  >
+                    {verified ? <ShieldCheck size={12} /> : <ShieldAlert size={12} />}
+                    {verified ? 'Verified' : 'Codes match'}
+                  </button>
+                  {trusted ? (
+                    <span className="flex items-center gap-1 text-xs" style={{ color: 'var(--success)' }}>
+                      <Star size={12} />
+                      Trusted
+                    </span>
+                  ) : remote && verified && (
+                    <button
+                      onClick={() => onTrust(peerId)}
+                      title="Remember this device for one-click reconnects"
+                      className="flex items-center gap-1 text-xs transition-opacity hover:opacity-60"
+                      style={{ color: 'var(--text-secondary)' }}
+                    >
+                      <Star size={12} />
+                      Trust
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {reconnectingPeers.filter(peerId => !connectedPeers.includes(peerId)).map(peerId => (
+          <div key={peerId} className="flex items-center gap-3">
+            <div className="w-4 h-4 border" style={{ borderColor: 'var(--border)' }} />
+            <span className="flex-1 text-sm truncate" style={{ color: 'var(--text-muted)' }}>
+              <span className="font-mono">{peerId}</span> · Reconnecting…
+            </span>
+            <button
+              onClick={() => onDisconnect(peerId)}
+              title="Stop reconnecting"
+              className="p-1 hover:opacity-60"
+              style={{ color: 'var(--text-muted)' }}
+            >
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-3 mt-3">
+        <input
+          type="text"
+          value={remoteId}
+          onChange={(e) => onRemoteIdChange(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && onConnect()}
+          placeholder="Add another device"
+          className="flex-1 bg-transparent text-sm font-mono py-1 border-b transition-colors focus:border-current"
+          style={{
+            borderColor: 'var(--border)',
+            color: 'var(--text-primary)'
+          }}
+        />
+        <button
+          onClick={onConnect}
+          disabled={!remoteId.trim()}
+          className="p-1 transition-opacity hover:opacity-60 disabled:opacity-30"
+          style={{ color: 'var(--text-primary)' }}
+        >
+          <ArrowRight size={16} />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { Pause, Play, RotateCcw, X } from 'lucide-react';
+import type { FileTransferState } from '@/hooks/useFileSends';
+import type { LinkStats } from '@/utils/connectionStats';
+import { TransferStatsLine } from './TransferStatsLine';
+
+interface SendingListProps {
+  files: FileTransferState[];
+  linkStats: Record<string, LinkStats>;
+  // Peers with an open connection, the only ones a failed send can be retried to
+  connectedPeers: string[];
+  onTogglePause: (entry: FileTransferState) => void;
+  onRetry: (entry: FileTransferState) => void;
+  onCancel: (entry: FileTransferState) => void;
+}
+
+function statusLabel(entry: FileTransferState): string {
+  switch (entry.status) {
+    case 'complete': return '✓';
+    case 'waiting': return 'Waiting';
+    case 'declined': return 'Declined';
+    case 'cancelled': return 'Cancelled';
+    case 'interrupted': return 'Interrupted';
+    case 'error': return 'Failed';
+    default: return entry.paused ? 'Paused' : `${entry.progress}%`;
+  }
+}
+
+// Every outgoing file with its recipient, progress and controls
+export function SendingList({ files, linkStats, connectedPeers, onTogglePause, onRetry, onCancel }: SendingListProps) {
+  if (files.length === 0) return null;
+
+  return (
+    <div className="mb-8">
+      <label className="text-xs uppercase tracking-wider mb-3 block" style={{ color: 'var(--text-muted)' }}>
+        Sending
+      </label>
+      <div className="space-y-3">
+        {files.map(f => (
+          <div key={f.id} className="flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm truncate" style={{ color: 'var(--text-primary)' }}>
+                {f.relativePath ?? f.file.name}
+                <span className="ml-2 text-xs font-mono" style={{ color: 'var(--text-muted)' }}>
+                  → {f.peerId}
+                </span>
+              </p>
+              <div className="flex items-center gap-2 mt-1">
+                <div className="flex-1 h-1" style={{ background: 'var(--border)' }}>
+                  <div
+                    className="h-full progress-bar transition-all"
+                    style={{ width: `${f.progress}%` }}
+                  />
+                </div>
+                <span className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                  {statusLabel(f)}
+                </span>
+              </div>
+              {f.status === 'sending' && !f.paused && (
+                <TransferStatsLine stats={f.stats} link={linkStats[f.peerId]} />
+              )}
+            </div>
+            {f.status === 'sending' && (
+              <button
+                onClick={() => onTogglePause(f)}
+                title={f.paused ? 'Resume' : 'Pause'}
+                className="p-1 hover:opacity-60"
+                style={{ color: 'var(--text-secondary)' }}
+              >
+                {f.paused ? <Play size={14} /> : <Pause size={14} />}
+              </button>
+            )}
+            {f.status === 'error' && connectedPeers.includes(f.peerId) && (
+              <button
+                onClick={() => onRetry(f)}
+                title="Try again"
+                className="p-1 hover:opacity-60"
+                style={{ color: 'var(--text-secondary)' }}
+              >
+                <RotateCcw size={14} />
+              </button>
+            )}
+            {(f.status === 'pending' || f.status === 'waiting' || f.status === 'sending' || f.status === 'interrupted') && (
+              <button
+                onClick={() => onCancel(f)}
+                title="Cancel"
+                className="p-1 hover:opacity-60"
+                style={{ color: 'var(--text-muted)' }}
+              >
+                <X size={14} />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { ArrowDown, ArrowUp, Send, X } from 'lucide-react';
+import { formatSize } from '@/utils/format';
+import type { ImageProcessingOptions } from '@/utils/imageProcessing';
+
+export interface StagedFile {
+  id: string;
+  // As picked, and as it will go out once the photo options are applied
+  original: File;
+  file: File;
+  relativePath?: string;
+  // Undefined while it's being made, null for files that don't get one
+  thumbnail?: string | null;
+  // Photo options are being applied; Send waits for them
+  processing?: boolean;
+  // Metadata removal was on but couldn't be done for this format
+  metadataKept?: boolean;
+}
+
+interface StagingTrayProps {
+  items: StagedFile[];
+  recipientCount: number;
+  imageOptions: ImageProcessingOptions;
+  onImageOptionsChange: (options: ImageProcessingOptions) => void;
+  onMove: (id: string, offset: number) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onSend: () => void;
+}
+
+const MAX_DIMENSIONS = [4096, 2048, 1280];
+const QUALITIES = [0.9, 0.75, 0.6];
+
+const selectClass = 'bg-transparent text-xs py-1 border-b';
+const selectStyle = { borderColor: 'var(--border)', color: 'var(--text-secondary)' };
+
+// Files picked or dropped wait here, in the order they'll be offered, until Send
+export function StagingTray({
+  items,
+  recipientCount,
+  imageOptions,
+  onImageOptionsChange,
+  onMove,
+  onRemove,
+  onClear,
+  onSend
+}: StagingTrayProps) {
+  if (items.length === 0) return null;
+  const totalSize = items.reduce((sum, item) => sum + item.file.size, 0);
+  const hasImages = items.some(item => item.original.type.startsWith('image/'));
+  const processing = items.some(item => item.processing);
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-3">
+        <label className="text-xs uppercase tracking-wider" style={{ color: 'var(--text-muted)' }}>
+          Ready to send · {items.length} {items.length === 1 ? 'file' : 'files'}, {formatSize(totalSize)}
+        </label>
+        <button onClick={onClear} className="text-xs underline" style={{ color: 'var(--text-secondary)' }}>
+          Clear
+        </button>
+      </div>
+
+      {hasImages && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mb-3 text-xs" style={{ color: 'var(--text-secondary)' }}>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={imageOptions.stripMetadata}
+              onChange={(e) => onImageOptionsChange({ ...imageOptions, stripMetadata: e.target.checked })}
+            />
+            Remove location and camera details
+          </label>
+          <select
+            value={imageOptions.maxDimension ?? ''}
+            onChange={(e) => onImageOptionsChange({ ...imageOptions, maxDimension: e.target.value ? Number(e.target.value) : null })}
+            className={selectClass}
+            style={selectStyle}
+          >
+            <option value="">Full size</option>
+            {MAX_DIMENSIONS.map(size => <option key={size} value={size}>At most {size} px</option>)}
+          </select>
+          <select
+            value={imageOptions.quality ?? ''}
+            onChange={(e) => onImageOptionsChange({ ...imageOptions, quality: e.target.value ? Number(e.target.value) : null })}
+            className={selectClass}
+            style={selectStyle}
+          >
+            <option value="">Original quality</option>
+            {QUALITIES.map(quality => <option key={quality} value={quality}>{Math.round(quality * 100)}% quality</option>)}
+          </select>
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        {items.map((item, i) => (
+          <div key={item.id} className="flex items-center gap-3">
+            {item.thumbnail ? (
+              <img src={item.thumbnail} alt="" className="w-10 h-10 object-cover flex-shrink-0" />
+            ) : (
+              <div
+                className={`w-10 h-10 flex-shrink-0 ${item.thumbnail === undefined ? 'animate-pulse' : ''}`}
+                style={{ background: 'var(--border)' }}
+              />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="text-sm truncate" style={{ color: 'var(--text-primary)' }}>
+                {item.relativePath ?? item.file.name}
+              </p>
+              <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                {formatSize(item.original.size)}
+                {item.processing ? ' · preparing…' : item.file !== item.original && ` → ${formatSize(item.file.size)}`}
+                {item.metadataKept && (
+                  <span style={{ color: 'var(--error)' }}> · details can't be removed from this format</span>
+                )}
+              </p>
+            </div>
+            <button
+              onClick={() => onMove(item.id, -1)}
+              disabled={i === 0}
+              title="Move up"
+              className="p-1 hover:opacity-60 disabled:opacity-30"
+              style={{ color: 'var(--text-secondary)' }}
+            >
+              <ArrowUp size={14} />
+            </button>
+            <button
+              onClick={() => onMove(item.id, 1)}
+              disabled={i === items.length - 1}
+              title="Move down"
+              className="p-1 hover:opacity-60 disabled:opacity-30"
+              style={{ color: 'var(--text-secondary)' }}
+            >
+              <ArrowDown size={14} />
+            </button>
+            <button
+              onClick={() => onRemove(item.id)}
+              title="Remove"
+              className="p-1 hover:opacity-60"
+              style={{ color: 'var(--text-muted)' }}
+            >
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={onSend}
+        disabled={recipientCount === 0 || processing}
+        className="flex items-center gap-2 mt-4 px-4 py-2 text-sm transition-opacity hover:opacity-70 disabled:opacity-30"
+        style={{ background: 'var(--text-primary)', color: 'var(--bg-primary)' }}
+      >
+        <Send size={14} />
+        {recipientCount === 0 ? 'Select a device to send to' :
+         processing ? 'Preparing photos…' :
+         recipientCount > 1 ? `Send to ${recipientCount} devices` : 'Send'}
+      </button>
+    </div>
+  );
+}
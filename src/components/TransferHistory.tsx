@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { HistoryRecord, TransferOutcome, clearHistory, listHistory } from '@/utils/historyStore';
+import { formatDuration, formatSize, formatSpeed } from '@/utils/format';
+
+type DirectionFilter = 'all' | HistoryRecord['direction'];
+type OutcomeFilter = 'all' | TransferOutcome;
+
+interface TransferHistoryProps {
+  // Bumped by the app whenever it records a transfer, to reload the list
+  version: number;
+  keepFiles: boolean;
+  onKeepFilesChange: (keep: boolean) => void;
+  onClose: () => void;
+}
+
+const OUTCOME_LABELS: Record<TransferOutcome, string> = {
+  complete: 'Complete',
+  failed: 'Failed',
+  declined: 'Declined',
+  cancelled: 'Cancelled'
+};
+
+function FilterButton({ active, onClick, children }: { active: boolean; onClick: () => void; children: string }) {
+  return (
+    <button
+      onClick={onClick}
+      className="text-xs transition-opacity hover:opacity-60"
+      style={{ color: active ? 'var(--text-primary)' : 'var(--text-muted)', textDecoration: active ? 'underline' : 'none' }}
+    >
+      {children}
+    </button>
+  );
+}
+
+export function TransferHistory({ version, keepFiles, onKeepFilesChange, onClose }: TransferHistoryProps) {
+  const [records, setRecords] = useState<HistoryRecord[]>([]);
+  const [query, setQuery] = useState('');
+  const [direction, setDirection] = useState<DirectionFilter>('all');
+  const [outcome, setOutcome] = useState<OutcomeFilter>('all');
+
+  useEffect(() => {
+    let cancelled = false;
+    listHistory()
+      .then(list => { if (!cancelled) setRecords(list); })
+      .catch(err => console.error('Failed to load history:', err));
+    return () => { cancelled = true; };
+  }, [version]);
+
+  const clearAll = async () => {
+    if (!window.confirm('Delete the whole transfer history, including kept files?')) return;
+    await clearHistory();
+    setRecords([]);
+  };
+
+  const downloadKept = (record: HistoryRecord) => {
+    if (!record.file) return;
+    const url = URL.createObjectURL(record.file);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = record.fileName.split('/').pop() || record.fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const needle = query.trim().toLowerCase();
+  const visible = records.filter(record =>
+    (direction === 'all' || record.direction === direction) &&
+    (outcome === 'all' || record.outcome === outcome) &&
+    (!needle ||
+      record.fileName.toLowerCase().includes(needle) ||
+      record.peerId.toLowerCase().includes(needle) ||
+      record.fileHash?.includes(needle))
+  );
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-3">
+        <label className="text-xs uppercase tracking-wider" style={{ color: 'var(--text-muted)' }}>
+          History
+        </label>
+        <button
+          onClick={onClose}
+          className="p-1 hover:opacity-60"
+          style={{ color: 'var(--text-muted)' }}
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search by name, device or hash"
+        className="w-full bg-transparent text-sm py-1 mb-3 border-b transition-colors focus:border-current"
+        style={{ borderColor: 'var(--border)', color: 'var(--text-primary)' }}
+      />
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mb-4">
+        <FilterButton active={direction === 'all'} onClick={() => setDirection('all')}>All</FilterButton>
+        <FilterButton active={direction === 'sent'} onClick={() => setDirection('sent')}>Sent</FilterButton>
+        <FilterButton active={direction === 'received'} onClick={() => setDirection('received')}>Received</FilterButton>
+        <span style={{ color: 'var(--border)' }}>|</span>
+        <FilterButton active={outcome === 'all'} onClick={() => setOutcome('all')}>Any outcome</FilterButton>
+        {(Object.keys(OUTCOME_LABELS) as TransferOutcome[]).map(o => (
+          <FilterButton key={o} active={outcome === o} onClick={() => setOutcome(o)}>{OUTCOME_LABELS[o]}</FilterButton>
+        ))}
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm mb-4" style={{ color: 'var(--text-muted)' }}>
+          {records.length === 0 ? 'No transfers yet' : 'Nothing matches'}
+        </p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto space-y-4 mb-4">
+          {visible.map(record => (
+            <div key={record.id} className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm truncate" style={{ color: 'var(--text-primary)' }}>
+                  {record.fileName}
+                </p>
+                <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                  {record.direction === 'sent' ? '→' : '←'} <span className="font-mono">{record.peerId}</span>
+                  {' · '}{formatSize(record.fileSize)}
+                  {' · '}{new Date(record.finishedAt).toLocaleString()}
+                </p>
+                <p className="text-xs" style={{ color: record.outcome === 'failed' ? 'var(--error)' : 'var(--text-muted)' }}>
+                  {OUTCOME_LABELS[record.outcome]}
+                  {record.outcome === 'complete' && ` in ${formatDuration(record.durationMs)} · ${formatSpeed(record.averageSpeed)}`}
+                </p>
+                {record.fileHash && (
+                  <p className="text-xs font-mono truncate" title={`SHA-256 ${record.fileHash}`} style={{ color: 'var(--text-muted)' }}>
+                    {record.fileHash.slice(0, 16)}…
+                  </p>
+                )}
+              </div>
+              {record.file && (
+                <button
+                  onClick={() => downloadKept(record)}
+                  title="Download the kept copy"
+                  className="p-2 transition-opacity hover:opacity-60 flex-shrink-0"
+                  style={{ color: 'var(--text-primary)' }}
+                >
+                  <Download size={16} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-xs cursor-pointer" style={{ color: 'var(--text-secondary)' }}>
+          <input
+            type="checkbox"
+            checked={keepFiles}
+            onChange={(e) => onKeepFilesChange(e.target.checked)}
+          />
+          Keep copies of received files
+        </label>
+        {records.length > 0 && (
+          <button
+            onClick={clearAll}
+            className="text-xs underline"
+            style={{ color: 'var(--error)' }}
+          >
+            Clear all
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
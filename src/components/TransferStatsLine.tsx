@@ -0,0 +1,37 @@
+import type { LinkStats } from '@/utils/connectionStats';
+import type { TransferStats } from '@/utils/transferStats';
+import { formatDuration, formatSize, formatSpeed } from '@/utils/format';
+
+interface TransferStatsLineProps {
+  stats?: TransferStats;
+  link?: LinkStats;
+}
+
+const PATH_LABELS: Record<NonNullable<LinkStats['path']>, string> = {
+  direct: 'Direct',
+  relayed: 'Relayed (TURN)',
+  'relay-server': 'Relayed (relay server)'
+};
+
+// One line under a progress bar: how much, how fast, how long, and over what
+export function TransferStatsLine({ stats, link }: TransferStatsLineProps) {
+  const parts: string[] = [];
+  if (stats) {
+    parts.push(`${formatSize(stats.bytesTransferred)} of ${formatSize(stats.totalBytes)}`);
+    parts.push(`${formatSpeed(stats.throughput)} (avg ${formatSpeed(stats.averageThroughput)})`);
+    if (stats.eta !== null) parts.push(`${formatDuration(stats.eta * 1000)} left`);
+    if (stats.compressionRatio !== undefined) parts.push(`compressed to ${Math.round(stats.compressionRatio * 100)}%`);
+  }
+  if (link?.roundTripTime != null) parts.push(`${Math.round(link.roundTripTime * 1000)} ms`);
+  if (link?.path) parts.push(PATH_LABELS[link.path]);
+  if (parts.length === 0) return null;
+
+  return (
+    <p
+      className="text-xs mt-1 truncate"
+      style={{ color: link?.path === 'relayed' || link?.path === 'relay-server' ? 'var(--text-secondary)' : 'var(--text-muted)' }}
+    >
+      {parts.join(' · ')}
+    </p>
+  );
+}
@@ -0,0 +1,87 @@
+import { ArrowRight, X } from 'lucide-react';
+import { TrustedDevice, formatFingerprint } from '@/utils/deviceIdentity';
+
+interface TrustedDevicesProps {
+  devices: TrustedDevice[];
+  // Peers with an open connection, which need no connect button
+  connectedPeers: string[];
+  canConnect: boolean;
+  onConnect: (peerId: string) => void;
+  onToggleAutoAccept: (device: TrustedDevice) => void;
+  onRemove: (device: TrustedDevice) => void;
+}
+
+export function TrustedDevices({
+  devices,
+  connectedPeers,
+  canConnect,
+  onConnect,
+  onToggleAutoAccept,
+  onRemove
+}: TrustedDevicesProps) {
+  if (devices.length === 0) return null;
+
+  const remove = (device: TrustedDevice) => {
+    if (!window.confirm(`Stop trusting ${device.deviceName}?`)) return;
+    onRemove(device);
+  };
+
+  return (
+    <div className="mb-8">
+      <label className="text-xs uppercase tracking-wider mb-3 block" style={{ color: 'var(--text-muted)' }}>
+        Trusted devices
+      </label>
+      <div className="space-y-3">
+        {devices.map(device => {
+          const connected = connectedPeers.includes(device.peerId);
+          return (
+            <div key={device.peerId} className="flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm truncate" style={{ color: 'var(--text-primary)' }}>
+                  {device.deviceName}
+                  <span className="ml-2 text-xs font-mono" style={{ color: 'var(--text-muted)' }}>
+                    {device.peerId}
+                  </span>
+                </p>
+                <div className="flex items-center gap-3 text-xs" style={{ color: 'var(--text-muted)' }}>
+                  <span className="font-mono" title={`Key fingerprint ${device.fingerprint}`}>
+                    {formatFingerprint(device.fingerprint)}
+                  </span>
+                  <label className="flex items-center gap-1 cursor-pointer" style={{ color: 'var(--text-secondary)' }}>
+                    <input
+                      type="checkbox"
+                      checked={device.autoAccept}
+                      onChange={() => onToggleAutoAccept(device)}
+                    />
+                    Auto-accept files
+                  </label>
+                </div>
+              </div>
+              {connected ? (
+                <span className="text-xs" style={{ color: 'var(--success)' }}>Connected</span>
+              ) : (
+                <button
+                  onClick={() => onConnect(device.peerId)}
+                  disabled={!canConnect}
+                  title={`Connect to ${device.deviceName}`}
+                  className="p-1 transition-opacity hover:opacity-60 disabled:opacity-30"
+                  style={{ color: 'var(--text-primary)' }}
+                >
+                  <ArrowRight size={16} />
+                </button>
+              )}
+              <button
+                onClick={() => remove(device)}
+                title="Stop trusting"
+                className="p-1 hover:opacity-60"
+                style={{ color: 'var(--text-muted)' }}
+              >
+                <X size={14} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
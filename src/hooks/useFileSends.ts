@@ -0,0 +1,236 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { FileSender, TransferCancelledError, offerFiles } from '../utils/fileTransfer';
+import type { FileWithPath } from '../utils/folders';
+import { HistoryRecord, createHistoryRecord } from '../utils/historyStore';
+import { playSound } from '../utils/sounds';
+import type { TransferStats } from '../utils/transferStats';
+import type { Transport } from '../utils/transport';
+
+export interface FileTransferState {
+  id: string;
+  peerId: string; // recipient
+  file: File;
+  relativePath?: string;
+  thumbnail?: string;
+  progress: number;
+  // 'interrupted' sends carry on when the connection to the peer is back
+  status: 'pending' | 'waiting' | 'sending' | 'complete' | 'declined' | 'interrupted' | 'cancelled' | 'error';
+  paused?: boolean;
+  stats?: TransferStats;
+}
+
+interface FileSendsOptions {
+  connections: Transport[];
+  // Extra connections chunks can be striped across, see usePeer
+  lanes: Transport[];
+  passphrase: string;
+  compressFiles: boolean;
+  soundEnabled: boolean;
+  showToast: (message: string, type: 'success' | 'error' | 'info') => void;
+  recordHistory: (record: HistoryRecord) => void;
+}
+
+// Outgoing transfers: offering them, sending what's accepted, and their
+// pause, cancel, retry and resume after a dropped connection
+export function useFileSends({
+  connections,
+  lanes,
+  passphrase,
+  compressFiles,
+  soundEnabled,
+  showToast,
+  recordHistory
+}: FileSendsOptions) {
+  const [files, setFiles] = useState<FileTransferState[]>([]);
+  // Senders by FileTransferState id until their transfer ends, so an interrupted one can go on,
+  // and what cancels each of them
+  const sendersRef = useRef(new Map<string, FileSender>());
+  const sendAbortsRef = useRef(new Map<string, AbortController>());
+  // Read when a sender is made, so changing them doesn't restart anything
+  const passphraseRef = useRef(passphrase);
+  passphraseRef.current = passphrase;
+  const compressFilesRef = useRef(compressFiles);
+  compressFilesRef.current = compressFiles;
+  const lanesRef = useRef(lanes);
+  lanesRef.current = lanes;
+
+  const updateFile = useCallback((id: string, update: Partial<FileTransferState>) => {
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, ...update } : f));
+  }, []);
+
+  const runSends = useCallback(async (connection: Transport, entries: FileTransferState[]) => {
+    const offeredAt = Date.now();
+    const recordSend = (entry: FileTransferState, sender: FileSender, outcome: HistoryRecord['outcome'], startedAt: number) => {
+      recordHistory(createHistoryRecord({
+        id: sender.transferId,
+        direction: 'sent',
+        peerId: connection.peer,
+        fileName: entry.relativePath ?? entry.file.name,
+        fileType: entry.file.type,
+        fileSize: entry.file.size,
+        fileHash: sender.fileHash,
+        startedAt,
+        outcome
+      }));
+    };
+
+    const forgetSender = (entry: FileTransferState) => {
+      sendersRef.current.delete(entry.id);
+      sendAbortsRef.current.delete(entry.id);
+    };
+
+    // Offer the whole batch first and only stream what the receiver accepts.
+    // Interrupted transfers keep their sender, so the receiver knows them again.
+    const senders = new Map(entries.map(entry => {
+      const existing = sendersRef.current.get(entry.id);
+      existing?.reattach(connection);
+      const sender = existing ?? new FileSender(connection, entry.file, {
+        relativePath: entry.relativePath,
+        passphrase: passphraseRef.current || undefined,
+        lanes: () => lanesRef.current,
+        compress: compressFilesRef.current,
+        thumbnail: entry.thumbnail
+      });
+      sender.onProgress = (progress, stats) => updateFile(entry.id, { progress, stats });
+      sender.onPausedChange = (paused) => updateFile(entry.id, { paused });
+      sendersRef.current.set(entry.id, sender);
+      if (!sendAbortsRef.current.has(entry.id)) sendAbortsRef.current.set(entry.id, new AbortController());
+      return [entry.id, sender];
+    }));
+    entries.forEach(entry => updateFile(entry.id, { status: 'waiting' }));
+
+    let accepted: Set<string>;
+    try {
+      accepted = await offerFiles(connection, Array.from(senders.values()));
+    } catch (err) {
+      entries
+        .filter(entry => !sendAbortsRef.current.get(entry.id)?.signal.aborted)
+        .forEach(entry => updateFile(entry.id, { status: connection.open ? 'error' : 'interrupted' }));
+      return;
+    }
+
+    const declined = entries.filter(entry => !accepted.has(senders.get(entry.id)!.transferId));
+    if (declined.length > 0) {
+      declined.forEach(entry => {
+        forgetSender(entry);
+        updateFile(entry.id, { status: 'declined' });
+        recordSend(entry, senders.get(entry.id)!, 'declined', offeredAt);
+      });
+      showToast(`${declined.length} file${declined.length > 1 ? 's' : ''} declined`, 'info');
+    }
+
+    for (const entry of entries) {
+      const sender = senders.get(entry.id)!;
+      if (!accepted.has(sender.transferId)) continue;
+      const { signal } = sendAbortsRef.current.get(entry.id) ?? new AbortController();
+      // Cancelled while waiting for the answer; this only tells the receiver
+      if (signal.aborted) {
+        sender.send(signal).catch(() => {});
+        forgetSender(entry);
+        continue;
+      }
+      if (!connection.open) {
+        updateFile(entry.id, { status: 'interrupted' });
+        continue;
+      }
+
+      updateFile(entry.id, { status: 'sending' });
+      const startedAt = Date.now();
+
+      try {
+        await sender.send(signal);
+
+        forgetSender(entry);
+        updateFile(entry.id, { status: 'complete', progress: 100 });
+        recordSend(entry, sender, 'complete', startedAt);
+
+        if (soundEnabled) playSound('complete');
+        showToast(`Sent: ${entry.relativePath ?? entry.file.name} to ${connection.peer}`, 'success');
+      } catch (err) {
+        if (err instanceof TransferCancelledError) {
+          forgetSender(entry);
+          updateFile(entry.id, { status: 'cancelled', paused: false });
+          recordSend(entry, sender, 'cancelled', startedAt);
+          if (err.byPeer) showToast(`${connection.peer} cancelled ${entry.relativePath ?? entry.file.name}`, 'info');
+          continue;
+        }
+        if (!connection.open) {
+          updateFile(entry.id, { status: 'interrupted' });
+          continue;
+        }
+        console.error('Send error:', err);
+        forgetSender(entry);
+        updateFile(entry.id, { status: 'error' });
+        recordSend(entry, sender, 'failed', startedAt);
+        if (soundEnabled) playSound('error');
+        showToast(`Failed to send: ${entry.relativePath ?? entry.file.name}`, 'error');
+      }
+    }
+  }, [recordHistory, soundEnabled, showToast, updateFile]);
+
+  // Each recipient gets its own transfers and progress
+  const sendFiles = useCallback((recipients: Transport[], fileList: (FileWithPath & { thumbnail?: string })[]) => {
+    for (const connection of recipients) {
+      const newFiles: FileTransferState[] = fileList.map(({ file, relativePath, thumbnail }) => ({
+        id: Math.random().toString(36).slice(2),
+        peerId: connection.peer,
+        file,
+        relativePath,
+        thumbnail,
+        progress: 0,
+        status: 'pending'
+      }));
+
+      setFiles(prev => [...prev, ...newFiles]);
+      runSends(connection, newFiles);
+    }
+  }, [runSends]);
+
+  // A send in progress stops and reports back through runSends; one that hasn't
+  // started, or was cut off, is simply dropped
+  const cancelSend = (entry: FileTransferState) => {
+    sendAbortsRef.current.get(entry.id)?.abort();
+    if (entry.status !== 'sending') {
+      if (entry.status === 'interrupted') {
+        sendersRef.current.delete(entry.id);
+        sendAbortsRef.current.delete(entry.id);
+      }
+      updateFile(entry.id, { status: 'cancelled', paused: false });
+    }
+    if (soundEnabled) playSound('click');
+  };
+
+  const retrySend = (entry: FileTransferState) => {
+    const connection = connections.find(c => c.peer === entry.peerId && c.open);
+    if (connection) runSends(connection, [entry]);
+  };
+
+  const togglePauseSend = (entry: FileTransferState) => {
+    const sender = sendersRef.current.get(entry.id);
+    if (entry.paused) sender?.resume();
+    else sender?.pause();
+  };
+
+  // When a peer's connection (re)opens, pick up sends to it that an earlier one dropped.
+  // The receiver reports the chunks it already has, so only the rest go out. Sends
+  // that failed for a reason of their own wait for retrySend instead.
+  const filesRef = useRef(files);
+  filesRef.current = files;
+  const resumedConnectionsRef = useRef(new WeakSet<Transport>());
+  useEffect(() => {
+    for (const connection of connections) {
+      if (resumedConnectionsRef.current.has(connection)) continue;
+      resumedConnectionsRef.current.add(connection);
+
+      const interrupted = filesRef.current.filter(f =>
+        f.peerId === connection.peer && f.status === 'interrupted'
+      );
+      if (interrupted.length === 0) continue;
+
+      showToast(`Resuming ${interrupted.length} interrupted transfer${interrupted.length > 1 ? 's' : ''}`, 'info');
+      runSends(connection, interrupted);
+    }
+  }, [connections, runSends, showToast]);
+
+  return { files, sendFiles, cancelSend, retrySend, togglePauseSend };
+}
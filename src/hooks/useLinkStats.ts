@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { LinkStats, getLinkStats } from '../utils/connectionStats';
+import { Transport } from '../utils/transport';
+
+const POLL_INTERVAL_MS = 2000;
+
+// RTT and path of each connection by peer ID, polled only while `active`,
+// e.g. while a transfer is running
+export function useLinkStats(connections: Transport[], active: boolean): Record<string, LinkStats> {
+  const [stats, setStats] = useState<Record<string, LinkStats>>({});
+
+  useEffect(() => {
+    if (!active || connections.length === 0) return;
+    let cancelled = false;
+
+    const poll = async () => {
+      const entries = await Promise.all(connections.map(async connection => {
+        const link = await getLinkStats(connection).catch(() => null);
+        return [connection.peer, link] as const;
+      }));
+      if (cancelled) return;
+      const next: Record<string, LinkStats> = {};
+      for (const [peerId, link] of entries) {
+        if (link) next[peerId] = link;
+      }
+      setStats(next);
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [connections, active]);
+
+  return stats;
+}
@@ -1,80 +1,419 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import Peer, { DataConnection } from 'peerjs';
+import Peer from 'peerjs';
+import { ConnectionSettings, toPeerOptions } from '../utils/peerConfig';
+import { generateShortId } from '../utils/deviceIdentity';
+import { LANE_LABEL_PREFIX } from '../utils/fileTransfer';
+import { PeerTransport, Transport } from '../utils/transport';
+import { RelayClient } from '../utils/relayTransport';
 
-type ConnectionStatus = 'initializing' | 'ready' | 'connecting' | 'connected' | 'reconnecting' | 'error';
+type ConnectionStatus = 'initializing' | 'ready' | 'connecting' | 'connected' | 'reconnecting' | 'reconnecting-peer' | 'error';
 
 interface UsePeerReturn {
   myId: string | null;
-  connection: DataConnection | null;
+  // Every open connection in the session, in the order they joined. Direct
+  // WebRTC where possible, through the relay (settings.relayUrl) where not.
+  connections: Transport[];
+  // Extra connections to peers in the session, for striping file chunks, see parallelConnections.
+  // Only those whose fingerprints the peer confirmed over its main connection.
+  lanes: Transport[];
+  // Peers whose connection dropped and that this side is dialing again
+  reconnectingPeers: string[];
   status: ConnectionStatus;
   error: string | null;
+  // The device's own ID was taken, by another tab most likely, so this session uses a random one
+  usingTemporaryId: boolean;
   connectToPeer: (remoteId: string) => void;
+  disconnectPeer: (remoteId: string) => void;
   retry: () => void;
 }
 
-function generateShortId(): string {
-  const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
-  let result = 'zap-';
-  for (let i = 0; i < 6; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return result;
+interface Redial {
+  attempt: number;
+  timer: ReturnType<typeof setTimeout> | null;
 }
 
-export function usePeer(): UsePeerReturn {
+// Sent just before closing on purpose, so the other side doesn't dial back
+interface ByeMessage {
+  type: 'bye';
+}
+
+// Sent over the main connection once a lane is open, with the lane's certificate
+// fingerprints as the sender sees them. The verification codes only cover the
+// main connection; a lane both sides describe the same way through it can't
+// have anyone in the middle either, so only those carry file data.
+interface LaneFingerprints {
+  type: 'lane';
+  local: string;
+  remote: string;
+}
+
+const PEER_RECONNECT_BASE_DELAY_MS = 1000;
+const PEER_RECONNECT_MAX_DELAY_MS = 30000;
+const MAX_PEER_RECONNECT_ATTEMPTS = 8;
+// PeerJS never fails a dial to a peer that isn't there, so each dial gets this long to open
+const DIAL_TIMEOUT_MS = 10000;
+// How long the other device gets to answer through the relay once WebRTC has failed
+const RELAY_DIAL_TIMEOUT_MS = 10000;
+// A lane the other side hasn't vouched for over the main connection by then is closed
+const LANE_CONFIRM_TIMEOUT_MS = 10000;
+
+const laneKey = (local: string, remote: string) => `${local} ${remote}`;
+
+// Waits for settings and the device's ID before connecting to the signaling
+// server, and starts over when either changes
+export function usePeer(settings: ConnectionSettings | null, deviceId: string | null): UsePeerReturn {
   const [myId, setMyId] = useState<string | null>(null);
-  const [connection, setConnection] = useState<DataConnection | null>(null);
+  const [connections, setConnections] = useState<Transport[]>([]);
+  const [lanes, setLanes] = useState<Transport[]>([]);
+  const [reconnectingPeers, setReconnectingPeers] = useState<string[]>([]);
   const [status, setStatus] = useState<ConnectionStatus>('initializing');
   const [error, setError] = useState<string | null>(null);
-  
+  const [usingTemporaryId, setUsingTemporaryId] = useState(false);
+
   const peerRef = useRef<Peer | null>(null);
+  const relayRef = useRef<RelayClient | null>(null);
+  const connectionsRef = useRef(new Map<string, Transport>());
+  const lanesRef = useRef(new Map<string, Transport[]>());
+  // Lanes waiting for the other side's LaneFingerprints, and the ones each peer has sent
+  const pendingLanesRef = useRef(new Map<Transport, ReturnType<typeof setTimeout>>());
+  const vouchedLanesRef = useRef(new Map<string, Set<string>>());
   const reconnectAttempts = useRef(0);
   const maxReconnectAttempts = 3;
+  const temporaryIdRef = useRef(false);
+  // Only the side that dialed redials, so the two ends don't race each other
+  const dialedPeersRef = useRef(new Set<string>());
+  const redialsRef = useRef(new Map<string, Redial>());
+  const closedOnPurposeRef = useRef(new WeakSet<Transport>());
+  // Set below; dial and scheduleRedial call each other
+  const scheduleRedialRef = useRef<(remoteId: string) => void>(() => {});
+
+  const syncConnections = useCallback(() => {
+    const open = Array.from(connectionsRef.current.values());
+    const redialing = Array.from(redialsRef.current.keys());
+    setConnections(open);
+    setReconnectingPeers(redialing);
+    setStatus(open.length > 0 ? 'connected' : redialing.length > 0 ? 'reconnecting-peer' : 'ready');
+  }, []);
+
+  const syncLanes = useCallback(() => {
+    setLanes(Array.from(lanesRef.current.values()).flat());
+  }, []);
+
+  // Takes the lane into use once the other side has described it the same way
+  const confirmLane = useCallback((lane: Transport) => {
+    const fingerprints = lane.getFingerprints();
+    const vouched = vouchedLanesRef.current.get(lane.peer);
+    const key = fingerprints && laneKey(fingerprints.local, fingerprints.remote);
+    if (!key || !vouched?.has(key) || !pendingLanesRef.current.has(lane)) return;
+
+    vouched.delete(key);
+    clearTimeout(pendingLanesRef.current.get(lane));
+    pendingLanesRef.current.delete(lane);
+    lanesRef.current.set(lane.peer, [...(lanesRef.current.get(lane.peer) ?? []), lane]);
+    syncLanes();
+  }, [syncLanes]);
+
+  const describeLane = useCallback((lane: Transport) => {
+    const conn = connectionsRef.current.get(lane.peer);
+    const fingerprints = lane.getFingerprints();
+    if (!conn || !fingerprints) return;
+    const message: LaneFingerprints = { type: 'lane', ...fingerprints };
+    conn.send(message);
+  }, []);
+
+  const addLane = useCallback((lane: Transport) => {
+    const timer = setTimeout(() => {
+      pendingLanesRef.current.delete(lane);
+      console.warn(`Closing a lane from ${lane.peer} that wasn't confirmed over the main connection`);
+      lane.close();
+    }, LANE_CONFIRM_TIMEOUT_MS);
+    pendingLanesRef.current.set(lane, timer);
+    describeLane(lane);
+    confirmLane(lane);
+  }, [confirmLane, describeLane]);
+
+  const removeLane = useCallback((lane: Transport) => {
+    clearTimeout(pendingLanesRef.current.get(lane));
+    pendingLanesRef.current.delete(lane);
+    const remaining = (lanesRef.current.get(lane.peer) ?? []).filter(l => l !== lane);
+    if (remaining.length > 0) {
+      lanesRef.current.set(lane.peer, remaining);
+    } else {
+      lanesRef.current.delete(lane.peer);
+    }
+    syncLanes();
+  }, [syncLanes]);
+
+  const closeLanes = useCallback((remoteId: string) => {
+    vouchedLanesRef.current.delete(remoteId);
+    pendingLanesRef.current.forEach((timer, lane) => {
+      if (lane.peer !== remoteId) return;
+      clearTimeout(timer);
+      pendingLanesRef.current.delete(lane);
+      lane.close();
+    });
+    const peerLanes = lanesRef.current.get(remoteId);
+    if (!peerLanes) return;
+    lanesRef.current.delete(remoteId);
+    peerLanes.forEach(lane => lane.close());
+    syncLanes();
+  }, [syncLanes]);
+
+  // The other side's view of a lane: its local fingerprint is this side's remote one
+  const watchForLanes = useCallback((conn: Transport) => {
+    conn.onMessage((data) => {
+      const message = data as LaneFingerprints | null;
+      if (message?.type !== 'lane' || typeof message.local !== 'string' || typeof message.remote !== 'string') return;
+      if (connectionsRef.current.get(conn.peer) !== conn) return;
+
+      const vouched = vouchedLanesRef.current.get(conn.peer) ?? new Set<string>();
+      vouched.add(laneKey(message.remote, message.local));
+      vouchedLanesRef.current.set(conn.peer, vouched);
+      pendingLanesRef.current.forEach((_timer, lane) => {
+        if (lane.peer === conn.peer) confirmLane(lane);
+      });
+    });
+  }, [confirmLane]);
+
+  // Lanes are separate peer connections, each with its own congestion window,
+  // so together they can move more than one connection on a fast link
+  const openLanes = useCallback((remoteId: string) => {
+    const peer = peerRef.current;
+    const count = settings?.parallelConnections ?? 1;
+    if (!peer || peer.destroyed) return;
+    for (let n = 1; n < count; n++) {
+      const conn = peer.connect(remoteId, { reliable: true, label: `${LANE_LABEL_PREFIX}-${n}` });
+      const lane = new PeerTransport(conn);
+      conn.on('open', () => addLane(lane));
+      conn.on('close', () => removeLane(lane));
+      conn.on('error', (err) => console.error('Lane error:', err));
+    }
+  }, [settings, addLane, removeLane]);
+
+  const addConnection = useCallback((conn: Transport) => {
+    // A peer that reconnects replaces its old connection
+    const existing = connectionsRef.current.get(conn.peer);
+    if (existing && existing !== conn) {
+      connectionsRef.current.delete(conn.peer);
+      closedOnPurposeRef.current.add(existing);
+      existing.close();
+    }
+    connectionsRef.current.set(conn.peer, conn);
+    watchForLanes(conn);
+    // Lanes can open before the main connection does on this side
+    pendingLanesRef.current.forEach((_timer, lane) => {
+      if (lane.peer === conn.peer) describeLane(lane);
+    });
+    syncConnections();
+  }, [describeLane, syncConnections, watchForLanes]);
+
+  const removeConnection = useCallback((conn: Transport) => {
+    if (connectionsRef.current.get(conn.peer) !== conn) return;
+    connectionsRef.current.delete(conn.peer);
+    closeLanes(conn.peer);
+    syncConnections();
+  }, [closeLanes, syncConnections]);
+
+  const cancelRedial = useCallback((remoteId: string) => {
+    const redial = redialsRef.current.get(remoteId);
+    if (!redial) return;
+    if (redial.timer) clearTimeout(redial.timer);
+    redialsRef.current.delete(remoteId);
+  }, []);
+
+  const watchForBye = useCallback((conn: Transport) => {
+    conn.onMessage((data) => {
+      if ((data as ByeMessage | null)?.type === 'bye') closedOnPurposeRef.current.add(conn);
+    });
+  }, []);
+
+  // A connection this side dialed is open; redial it if it drops
+  const adoptDialed = useCallback((conn: Transport) => {
+    const remoteId = conn.peer;
+    cancelRedial(remoteId);
+    setError(null);
+    addConnection(conn);
+    conn.onClose(() => {
+      const dropped = connectionsRef.current.get(remoteId) === conn && !closedOnPurposeRef.current.has(conn);
+      removeConnection(conn);
+      if (dropped && dialedPeersRef.current.has(remoteId)) {
+        scheduleRedialRef.current(remoteId);
+      }
+    });
+  }, [addConnection, cancelRedial, removeConnection]);
+
+  const dial = useCallback((remoteId: string, isRedial: boolean) => {
+    const peer = peerRef.current;
+    if (!peer || peer.destroyed) {
+      // The signaling connection is being set up again; try later
+      if (isRedial) scheduleRedialRef.current(remoteId);
+      return;
+    }
+
+    const conn = peer.connect(remoteId, { reliable: true });
+    const transport = new PeerTransport(conn);
+    watchForBye(transport);
+    let opened = false;
+    let failed = false;
+
+    const giveUp = (message: string) => {
+      if (isRedial) {
+        scheduleRedialRef.current(remoteId);
+        return;
+      }
+      dialedPeersRef.current.delete(remoteId);
+      setError(message);
+      if (connectionsRef.current.size === 0) {
+        setStatus('error');
+      }
+    };
+    const fail = (message: string) => {
+      if (opened || failed) return;
+      failed = true;
+      clearTimeout(openTimer);
+      conn.close();
+
+      // WebRTC couldn't get through, e.g. both sides are behind strict NATs; the relay may
+      const relay = relayRef.current;
+      if (!relay?.connected) {
+        giveUp(message);
+        return;
+      }
+      relay.dial(remoteId, RELAY_DIAL_TIMEOUT_MS).then(
+        relayed => {
+          // Settings changed or the page reconnected while this was going on
+          if (relayRef.current !== relay) {
+            relayed.close();
+            return;
+          }
+          watchForBye(relayed);
+          adoptDialed(relayed);
+        },
+        err => {
+          console.warn('Relay fallback failed:', err);
+          giveUp(message);
+        }
+      );
+    };
+    const openTimer = setTimeout(() => fail(`Could not reach ${remoteId}`), DIAL_TIMEOUT_MS);
+
+    conn.on('open', () => {
+      if (failed) return;
+      opened = true;
+      clearTimeout(openTimer);
+      adoptDialed(transport);
+      openLanes(remoteId);
+    });
+
+    conn.on('close', () => {
+      if (!opened) fail(`Failed to connect to ${remoteId}`);
+    });
+
+    conn.on('error', (err) => {
+      console.error('Connection error:', err);
+      fail(`Failed to connect to ${remoteId}`);
+    });
+  }, [adoptDialed, openLanes, watchForBye]);
+
+  // Backs off exponentially, with some jitter, and gives up after a while
+  scheduleRedialRef.current = (remoteId: string) => {
+    const attempt = (redialsRef.current.get(remoteId)?.attempt ?? 0) + 1;
+    if (attempt > MAX_PEER_RECONNECT_ATTEMPTS) {
+      redialsRef.current.delete(remoteId);
+      dialedPeersRef.current.delete(remoteId);
+      setError(`Lost connection to ${remoteId}`);
+      syncConnections();
+      return;
+    }
+
+    const delay = Math.min(PEER_RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), PEER_RECONNECT_MAX_DELAY_MS);
+    const redial: Redial = { attempt, timer: null };
+    redial.timer = setTimeout(() => {
+      redial.timer = null;
+      dial(remoteId, true);
+    }, delay * (0.8 + Math.random() * 0.4));
+    redialsRef.current.set(remoteId, redial);
+    syncConnections();
+  };
+
+  // Connections from devices that reached this one through the relay
+  const acceptRelayed = useCallback((conn: Transport) => {
+    watchForBye(conn);
+    addConnection(conn);
+    conn.onClose(() => removeConnection(conn));
+  }, [addConnection, removeConnection, watchForBye]);
 
   const initializePeer = useCallback(() => {
     if (peerRef.current) {
       peerRef.current.destroy();
+      peerRef.current = null;
     }
+    relayRef.current?.destroy();
+    relayRef.current = null;
+    if (!settings || !deviceId) return;
 
-    const id = generateShortId();
-    const peer = new Peer(id);
+    const id = temporaryIdRef.current ? generateShortId() : deviceId;
+    const peer = new Peer(id, toPeerOptions(settings));
     peerRef.current = peer;
 
     peer.on('open', (peerId) => {
       setMyId(peerId);
-      setStatus('ready');
+      syncConnections();
       setError(null);
       reconnectAttempts.current = 0;
+
+      // Registered under the same ID, so other devices can find this one there too.
+      // Kept when the signaling connection comes back, which keeps the ID.
+      if (settings.relayUrl && !relayRef.current && peerRef.current === peer) {
+        const relay = new RelayClient(settings.relayUrl, peerId);
+        relay.onTransport = acceptRelayed;
+        relayRef.current = relay;
+      }
     });
 
     peer.on('connection', (conn) => {
-      setStatus('connecting');
-      
+      const transport = new PeerTransport(conn);
+      if (conn.label?.startsWith(LANE_LABEL_PREFIX)) {
+        conn.on('open', () => addLane(transport));
+        conn.on('close', () => removeLane(transport));
+        return;
+      }
+      if (connectionsRef.current.size === 0) {
+        setStatus('connecting');
+      }
+      watchForBye(transport);
+
       conn.on('open', () => {
-        setConnection(conn);
-        setStatus('connected');
+        addConnection(transport);
       });
 
       conn.on('close', () => {
-        setConnection(null);
-        setStatus('ready');
+        removeConnection(transport);
       });
 
       conn.on('error', (err) => {
         console.error('Connection error:', err);
-        setError('Connection lost');
-        setStatus('error');
+        setError(`Connection to ${conn.peer} lost`);
+        removeConnection(transport);
       });
     });
 
     peer.on('error', (err) => {
       console.error('Peer error:', err);
-      
+
       if (err.type === 'unavailable-id') {
+        temporaryIdRef.current = true;
+        setUsingTemporaryId(true);
         initializePeer();
         return;
       }
-      
+
+      // About the remote side, not this peer; the dial's own timeout deals with it
+      if (err.type === 'peer-unavailable') {
+        if (redialsRef.current.size === 0) setError(err.message);
+        return;
+      }
+
       if (reconnectAttempts.current < maxReconnectAttempts) {
         reconnectAttempts.current++;
         setStatus('reconnecting');
@@ -92,54 +431,81 @@ export function usePeer(): UsePeerReturn {
         peer.reconnect();
       }
     });
-  }, []);
+  }, [settings, deviceId, acceptRelayed, addConnection, addLane, removeConnection, removeLane, syncConnections, watchForBye]);
 
   useEffect(() => {
+    const redials = redialsRef.current;
+    const dialedPeers = dialedPeersRef.current;
+    temporaryIdRef.current = false;
+    setUsingTemporaryId(false);
+    connectionsRef.current.clear();
+    lanesRef.current.clear();
+    pendingLanesRef.current.forEach(timer => clearTimeout(timer));
+    pendingLanesRef.current.clear();
+    vouchedLanesRef.current.clear();
+    setConnections([]);
+    setLanes([]);
+    setReconnectingPeers([]);
+    setStatus('initializing');
+    setMyId(null);
     initializePeer();
 
     return () => {
+      redials.forEach(redial => redial.timer && clearTimeout(redial.timer));
+      redials.clear();
+      dialedPeers.clear();
       if (peerRef.current) {
         peerRef.current.destroy();
       }
+      relayRef.current?.destroy();
+      relayRef.current = null;
     };
   }, [initializePeer]);
 
   const connectToPeer = useCallback((remoteId: string) => {
-    if (!peerRef.current) return;
+    if (!peerRef.current || connectionsRef.current.has(remoteId) || redialsRef.current.has(remoteId)) return;
 
-    setStatus('connecting');
+    if (connectionsRef.current.size === 0) {
+      setStatus('connecting');
+    }
     setError(null);
+    dialedPeersRef.current.add(remoteId);
+    dial(remoteId, false);
+  }, [dial]);
 
-    const conn = peerRef.current.connect(remoteId, { reliable: true });
-
-    conn.on('open', () => {
-      setConnection(conn);
-      setStatus('connected');
-    });
-
-    conn.on('close', () => {
-      setConnection(null);
-      setStatus('ready');
-    });
-
-    conn.on('error', (err) => {
-      console.error('Connection error:', err);
-      setError('Failed to connect');
-      setStatus('error');
-    });
-  }, []);
+  // Also stops redialing a peer whose connection dropped
+  const disconnectPeer = useCallback((remoteId: string) => {
+    dialedPeersRef.current.delete(remoteId);
+    cancelRedial(remoteId);
+    closeLanes(remoteId);
+    const conn = connectionsRef.current.get(remoteId);
+    if (conn) {
+      connectionsRef.current.delete(remoteId);
+      closedOnPurposeRef.current.add(conn);
+      const bye: ByeMessage = { type: 'bye' };
+      conn.send(bye);
+      conn.close({ flush: true });
+    }
+    syncConnections();
+  }, [cancelRedial, closeLanes, syncConnections]);
 
   const retry = useCallback(() => {
     reconnectAttempts.current = 0;
+    temporaryIdRef.current = false;
+    setUsingTemporaryId(false);
     initializePeer();
   }, [initializePeer]);
 
   return {
     myId,
-    connection,
+    connections,
+    lanes,
+    reconnectingPeers,
     status,
     error,
+    usingTemporaryId,
     connectToPeer,
+    disconnectPeer,
     retry
   };
 }
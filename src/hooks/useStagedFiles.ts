@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { StagedFile } from '../components/StagingTray';
+import type { FileWithPath } from '../utils/folders';
+import { createThumbnail } from '../utils/thumbnails';
+import {
+  ImageProcessingOptions,
+  ProcessedImage,
+  loadImageProcessingOptions,
+  processImage,
+  saveImageProcessingOptions
+} from '../utils/imageProcessing';
+
+function isImage(file: File): boolean {
+  return file.type.startsWith('image/');
+}
+
+// A re-encoded photo can change extension; its folder stays the same
+function withFileName(relativePath: string | undefined, file: File): string | undefined {
+  return relativePath && relativePath.slice(0, relativePath.lastIndexOf('/') + 1) + file.name;
+}
+
+interface StagedFilesOptions {
+  showToast: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+// Picked and dropped files waiting for Send, with their thumbnails and the
+// photo options (off unless turned on) applied as they change
+export function useStagedFiles({ showToast }: StagedFilesOptions) {
+  const [staged, setStaged] = useState<StagedFile[]>([]);
+  const [imageOptions, setImageOptions] = useState<ImageProcessingOptions>(loadImageProcessingOptions);
+  const stagedRef = useRef(staged);
+  stagedRef.current = staged;
+  const imageOptionsRef = useRef(imageOptions);
+  imageOptionsRef.current = imageOptions;
+
+  // A photo the browser can't decode or redraw goes as it was picked, rather than holding up the rest
+  const processOrKeep = useCallback(async (file: File, options: ImageProcessingOptions): Promise<ProcessedImage> => {
+    try {
+      return await processImage(file, options);
+    } catch (err) {
+      console.error('Image processing failed:', err);
+      showToast(`Couldn't process ${file.name}, it will be sent as it is`, 'error');
+      return { file, metadataKept: options.stripMetadata };
+    }
+  }, [showToast]);
+
+  // Applies the photo options one file at a time; changing them again starts over
+  const processStaged = useCallback(async (items: StagedFile[], options: ImageProcessingOptions) => {
+    for (const item of items) {
+      if (imageOptionsRef.current !== options) return;
+      const { file, metadataKept } = await processOrKeep(item.original, options);
+      if (imageOptionsRef.current !== options) return;
+      setStaged(prev => prev.map(s => s.id === item.id
+        ? { ...s, file, metadataKept, processing: false, relativePath: withFileName(s.relativePath, file) }
+        : s
+      ));
+    }
+  }, [processOrKeep]);
+
+  // Thumbnails are made one file at a time too, so a big folder doesn't decode everything at once
+  const stageFiles = useCallback(async (fileList: FileWithPath[]) => {
+    const items: StagedFile[] = fileList.map(({ file, relativePath }) => ({
+      id: Math.random().toString(36).slice(2),
+      original: file,
+      file,
+      relativePath,
+      processing: isImage(file)
+    }));
+    setStaged(prev => [...prev, ...items]);
+    processStaged(items.filter(item => item.processing), imageOptionsRef.current);
+    for (const item of items) {
+      const thumbnail = await createThumbnail(item.original);
+      setStaged(prev => prev.map(s => s.id === item.id ? { ...s, thumbnail: thumbnail ?? null } : s));
+    }
+  }, [processStaged]);
+
+  useEffect(() => {
+    saveImageProcessingOptions(imageOptions);
+    const images = stagedRef.current.filter(s => isImage(s.original));
+    if (images.length === 0) return;
+    setStaged(prev => prev.map(s => isImage(s.original) ? { ...s, processing: true } : s));
+    processStaged(images, imageOptions);
+  }, [imageOptions, processStaged]);
+
+  // For files that skip the tray, like pasted and shared ones
+  const prepareImages = useCallback(async (fileList: FileWithPath[]): Promise<FileWithPath[]> => {
+    const options = imageOptionsRef.current;
+    const prepared: FileWithPath[] = [];
+    for (const { file, relativePath } of fileList) {
+      const processed = (await processOrKeep(file, options)).file;
+      prepared.push({ file: processed, relativePath: withFileName(relativePath, processed) });
+    }
+    return prepared;
+  }, [processOrKeep]);
+
+  const moveStaged = useCallback((id: string, offset: number) => {
+    setStaged(prev => {
+      const from = prev.findIndex(s => s.id === id);
+      const to = from + offset;
+      if (from === -1 || to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+  }, []);
+
+  const removeStaged = useCallback((id: string) => {
+    setStaged(prev => prev.filter(s => s.id !== id));
+  }, []);
+
+  const clearStaged = useCallback(() => setStaged([]), []);
+
+  return {
+    staged,
+    imageOptions,
+    setImageOptions,
+    stageFiles,
+    prepareImages,
+    moveStaged,
+    removeStaged,
+    clearStaged
+  };
+}
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  RemoteDevice,
+  TrustedDevice,
+  listTrustedDevices,
+  removeTrustedDevice,
+  saveTrustedDevice
+} from '../utils/deviceIdentity';
+import type { ShortAuthString } from '../utils/sas';
+
+interface TrustedDevicesOptions {
+  // Whether the user confirmed the verification code of the peer's current connection
+  isVerified: (peerId: string) => boolean;
+  // A trusted device proved it holds the key we saved, so its connection counts as verified
+  onVerified: (sas: ShortAuthString) => void;
+  // Whether the peer's offers go through without asking
+  setAutoAccept: (peerId: string, on: boolean) => void;
+  showToast: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+// The devices the user chose to trust, and who is on the other end of each open connection
+export function useTrustedDevices({ isVerified, onVerified, setAutoAccept, showToast }: TrustedDevicesOptions) {
+  const [trustedDevices, setTrustedDevices] = useState<TrustedDevice[]>([]);
+  // Devices on the other end of open connections that proved who they are
+  const [remoteDevices, setRemoteDevices] = useState<Record<string, RemoteDevice>>({});
+  const trustedDevicesRef = useRef(trustedDevices);
+  trustedDevicesRef.current = trustedDevices;
+
+  useEffect(() => {
+    listTrustedDevices()
+      .then(setTrustedDevices)
+      .catch(err => console.error('Failed to load trusted devices:', err));
+  }, []);
+
+  // The proof is tied to the connection's certificates, see exchangeIdentity
+  const handleRemoteDevice = useCallback((sas: ShortAuthString, device: RemoteDevice) => {
+    setRemoteDevices(prev => ({ ...prev, [device.peerId]: device }));
+
+    const trusted = trustedDevicesRef.current.find(d => d.peerId === device.peerId);
+    if (!trusted) return;
+    if (trusted.fingerprint !== device.fingerprint) {
+      showToast(`${device.peerId} has a different key than the device you trusted`, 'error');
+      return;
+    }
+
+    onVerified(sas);
+    if (trusted.autoAccept) setAutoAccept(device.peerId, true);
+
+    const seen: TrustedDevice = { ...trusted, deviceName: device.deviceName, lastSeenAt: Date.now() };
+    setTrustedDevices(prev => prev.map(d => d.peerId === seen.peerId ? seen : d));
+    saveTrustedDevice(seen).catch(err => console.error('Failed to save trusted device:', err));
+  }, [onVerified, setAutoAccept, showToast]);
+
+  const forgetRemoteDevice = useCallback((peerId: string) => {
+    setRemoteDevices(prev => {
+      const { [peerId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  const isTrusted = (peerId: string) => {
+    const trusted = trustedDevices.find(d => d.peerId === peerId);
+    return !!trusted && trusted.fingerprint === remoteDevices[peerId]?.fingerprint;
+  };
+
+  // Only a verified connection is worth remembering, or we might pin an impostor's key
+  const trustDevice = (peerId: string) => {
+    const device = remoteDevices[peerId];
+    if (!device || !isVerified(peerId)) return;
+    const now = Date.now();
+    const trusted: TrustedDevice = { ...device, autoAccept: false, addedAt: now, lastSeenAt: now };
+    setTrustedDevices(prev => [trusted, ...prev.filter(d => d.peerId !== peerId)]);
+    saveTrustedDevice(trusted).catch(err => console.error('Failed to save trusted device:', err));
+    showToast(`${device.deviceName} is now trusted`, 'success');
+  };
+
+  const toggleAutoAccept = (device: TrustedDevice) => {
+    const updated: TrustedDevice = { ...device, autoAccept: !device.autoAccept };
+    setTrustedDevices(prev => prev.map(d => d.peerId === device.peerId ? updated : d));
+    saveTrustedDevice(updated).catch(err => console.error('Failed to save trusted device:', err));
+    if (updated.autoAccept && isTrusted(device.peerId)) {
+      setAutoAccept(device.peerId, true);
+    } else if (!updated.autoAccept) {
+      setAutoAccept(device.peerId, false);
+    }
+  };
+
+  const forgetDevice = (device: TrustedDevice) => {
+    setTrustedDevices(prev => prev.filter(d => d.peerId !== device.peerId));
+    removeTrustedDevice(device.peerId).catch(err => console.error('Failed to remove trusted device:', err));
+    setAutoAccept(device.peerId, false);
+  };
+
+  return {
+    trustedDevices,
+    remoteDevices,
+    handleRemoteDevice,
+    forgetRemoteDevice,
+    isTrusted,
+    trustDevice,
+    toggleAutoAccept,
+    forgetDevice
+  };
+}
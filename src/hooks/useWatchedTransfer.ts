@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ReceivedFile } from '../components/ReceivingList';
+import type { ReceivingFile } from '../utils/fileTransfer';
+
+// The incoming file being played before it has all arrived, see ProgressivePlayer.
+// Playing on after it completes is fine; a cancelled or failed one has nothing left to read.
+export function useWatchedTransfer(receivedFiles: ReceivedFile[]) {
+  const [watching, setWatching] = useState<{ id: string; source: ReceivingFile } | null>(null);
+  const file = watching ? receivedFiles.find(f => f.id === watching.id) : undefined;
+  const ended = !!watching && (!file || file.status === 'cancelled' || file.status === 'error');
+
+  useEffect(() => {
+    if (ended) setWatching(null);
+  }, [ended]);
+
+  const watch = useCallback((id: string, source: ReceivingFile) => setWatching({ id, source }), []);
+  const stopWatching = useCallback(() => setWatching(null), []);
+
+  return {
+    watched: watching && file ? { file, source: watching.source } : null,
+    watch,
+    stopWatching
+  };
+}
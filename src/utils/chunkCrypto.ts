@@ -0,0 +1,115 @@
+// Optional second layer of encryption for file chunks, on top of WebRTC's own
+// DTLS, for connections relayed through TURN servers we don't control. Both
+// sides use the same secret: a passphrase typed on each device, or a random key
+// passed in the share link's fragment, which browsers never send to a server.
+
+const PBKDF2_ITERATIONS = 310_000;
+const KEY_BYTES = 32;
+const SALT_BYTES = 16;
+const URL_KEY_PARAM = 'key';
+
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function generateShareKey(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(KEY_BYTES)));
+}
+
+export function readKeyFromUrl(): string | null {
+  return new URLSearchParams(window.location.hash.slice(1)).get(URL_KEY_PARAM);
+}
+
+export function withKeyInUrl(url: string, key: string): string {
+  return `${url}#${URL_KEY_PARAM}=${encodeURIComponent(key)}`;
+}
+
+export function createSalt(): ArrayBuffer {
+  return crypto.getRandomValues(new Uint8Array(SALT_BYTES)).buffer;
+}
+
+const baseKeys = new Map<string, Promise<CryptoKey>>();
+
+// Stretching is slow on purpose, so it runs once per secret and salt, not once per file
+function getBaseKey(secret: string, salt: ArrayBuffer): Promise<CryptoKey> {
+  const cacheKey = `${toBase64Url(new Uint8Array(salt))}:${secret}`;
+  let baseKey = baseKeys.get(cacheKey);
+  if (!baseKey) {
+    baseKey = (async () => {
+      const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveBits']);
+      const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PBKDF2_ITERATIONS },
+        material,
+        KEY_BYTES * 8
+      );
+      return crypto.subtle.importKey('raw', bits, 'HKDF', false, ['deriveKey']);
+    })();
+    baseKey.catch(() => baseKeys.delete(cacheKey));
+    baseKeys.set(cacheKey, baseKey);
+  }
+  return baseKey;
+}
+
+// AES-GCM for a single transfer. Each transfer gets its own key from HKDF, and
+// each encrypted chunk a fresh nonce from a counter, so no nonce is ever reused
+// under a key, re-sent chunks included.
+export class ChunkCipher {
+  private counter = 0;
+
+  private constructor(private key: CryptoKey) {}
+
+  static async create(secret: string, salt: ArrayBuffer, transferId: string): Promise<ChunkCipher> {
+    const baseKey = await getBaseKey(secret, salt);
+    const key = await crypto.subtle.deriveKey(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new TextEncoder().encode(transferId),
+        info: new TextEncoder().encode('zapdrop chunk v1')
+      },
+      baseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+    return new ChunkCipher(key);
+  }
+
+  // The chunk index is authenticated too, so chunks can't be swapped around
+  async encrypt(index: number, data: ArrayBuffer): Promise<{ iv: ArrayBuffer; data: ArrayBuffer }> {
+    const iv = new Uint8Array(12);
+    const view = new DataView(iv.buffer);
+    view.setUint32(4, Math.floor(this.counter / 0x100000000));
+    view.setUint32(8, this.counter % 0x100000000);
+    this.counter++;
+
+    const encrypted = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: indexBytes(index) },
+      this.key,
+      data
+    );
+    return { iv: iv.buffer, data: encrypted };
+  }
+
+  // Rejects with a DOMException if the key is wrong or the data was tampered with
+  decrypt(index: number, iv: ArrayBuffer, data: ArrayBuffer): Promise<ArrayBuffer> {
+    return crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: indexBytes(index) },
+      this.key,
+      data
+    );
+  }
+}
+
+function indexBytes(index: number): ArrayBuffer {
+  const bytes = new ArrayBuffer(4);
+  new DataView(bytes).setUint32(0, index);
+  return bytes;
+}
@@ -0,0 +1,73 @@
+// Decides how big each chunk message is and how much data the sender keeps
+// queued per channel, from the throughput and round-trip time it measures.
+//
+// PeerJS cuts every message into ~16KB pieces on the wire anyway, so a bigger
+// message doesn't change what SCTP carries. It saves the work done per message
+// (reading, hashing, encrypting, waiting on the channel), which is what limits
+// fast local links. What keeps a fast but distant link busy is the queue: it
+// needs about one bandwidth-delay product of data in flight, so the queue
+// target follows throughput × RTT.
+
+const SAMPLE_INTERVAL_MS = 500;
+export const MAX_MESSAGE_SIZE = 256 * 1024;
+// Room for the message envelope and the AES-GCM tag
+const MESSAGE_OVERHEAD = 1024;
+const MIN_BUFFER_TARGET = 1024 * 1024; // 1MB
+// Under the 8MB at which PeerJS starts queueing messages out of sight of the data
+// channel's bufferedAmount, with room for the message sent on top of the target
+const MAX_BUFFER_TARGET = 7 * 1024 * 1024; // 7MB
+// Queue this many round trips of data, so the target can grow past what the current one allows
+const BUFFER_TARGET_RTTS = 2;
+
+export class ChunkSizer {
+  // How many blocks of blockSize go in one message
+  public blocksPerMessage = 1;
+  // Bytes to let pile up on a channel before waiting for it to drain
+  public bufferTarget = MIN_BUFFER_TARGET;
+  // Bytes per second over the last sample, 0 before the first one
+  public throughput = 0;
+
+  private maxBlocks: number;
+  private roundTripTime: number | null = null;
+  private sampleStartedAt = performance.now();
+  private sampleStartBytes = 0;
+
+  // maxMessageSize is the SCTP association's limit, where the browser reports one
+  constructor(blockSize: number, maxMessageSize: number | null) {
+    const limit = Math.min(MAX_MESSAGE_SIZE, (maxMessageSize ?? MAX_MESSAGE_SIZE) - MESSAGE_OVERHEAD);
+    this.maxBlocks = Math.max(1, Math.floor(limit / blockSize));
+  }
+
+  setRoundTripTime(seconds: number | null) {
+    this.roundTripTime = seconds;
+  }
+
+  // Starts a fresh sample, e.g. after a pause that would otherwise look like a slow link
+  restart(sentBytes: number) {
+    this.sampleStartedAt = performance.now();
+    this.sampleStartBytes = sentBytes;
+  }
+
+  // sentBytes counts everything that has left the send queues so far. Returns
+  // true when a sample was taken, which is a good time to measure RTT again.
+  update(sentBytes: number): boolean {
+    const elapsed = performance.now() - this.sampleStartedAt;
+    if (elapsed < SAMPLE_INTERVAL_MS) return false;
+
+    const throughput = (sentBytes - this.sampleStartBytes) / (elapsed / 1000);
+    // Grow while bigger messages keep paying off, back off when things get worse
+    if (throughput > this.throughput * 1.1) {
+      this.blocksPerMessage = Math.min(this.blocksPerMessage * 2, this.maxBlocks);
+    } else if (throughput < this.throughput * 0.75) {
+      this.blocksPerMessage = Math.max(1, Math.floor(this.blocksPerMessage / 2));
+    }
+    if (this.roundTripTime !== null) {
+      const target = throughput * this.roundTripTime * BUFFER_TARGET_RTTS;
+      this.bufferTarget = Math.min(Math.max(target, MIN_BUFFER_TARGET), MAX_BUFFER_TARGET);
+    }
+
+    this.throughput = throughput;
+    this.restart(sentBytes);
+    return true;
+  }
+}
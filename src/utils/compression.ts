@@ -0,0 +1,77 @@
+// Optional compression of chunk data with the browser's CompressionStream.
+// Each chunk message is compressed on its own rather than the file as one
+// stream, so resuming, re-requesting chunks and writing them where they
+// belong all work the same as for uncompressed files. Chunks grow up to
+// 256KB (see chunkSizing.ts), which is plenty for text to compress well.
+
+export type CompressionCodec = 'gzip' | 'deflate';
+
+// Most preferred first: deflate carries less framing than gzip
+const CODECS: CompressionCodec[] = ['deflate', 'gzip'];
+
+// Formats that are compressed already and wouldn't get any smaller
+const COMPRESSED_TYPE = /^(image|video|audio)\/|^application\/(zip|gzip|x-gzip|x-7z-compressed|x-rar-compressed|vnd\.rar|x-bzip2|x-xz|zstd|pdf|epub\+zip|java-archive|vnd\.android\.package-archive|vnd\.openxmlformats-|vnd\.oasis\.opendocument\.)/;
+// Except these, which are plain or barely packed
+const UNCOMPRESSED_MEDIA_TYPE = /^image\/(svg\+xml|bmp|x-ms-bmp|tiff|x-icon|vnd\.microsoft\.icon)$|^audio\/(wav|x-wav|wave)$/;
+const COMPRESSED_EXTENSION = /\.(zip|gz|tgz|bz2|xz|7z|rar|zst|lz4|br|jpe?g|png|gif|webp|avif|heic|heif|mp4|m4v|mov|mkv|webm|mp3|aac|ogg|oga|opus|flac|m4a|pdf|docx|xlsx|pptx|odt|ods|odp|epub|apk|jar|dmg|iso|woff2?)$/i;
+
+export function supportedCodecs(): CompressionCodec[] {
+  return typeof CompressionStream === 'function' && typeof DecompressionStream === 'function' ? CODECS : [];
+}
+
+// Picks a codec both sides have, or null to send the file as it is
+export function pickCodec(file: File, peerCodecs: CompressionCodec[]): CompressionCodec | null {
+  const alreadyCompressed = !UNCOMPRESSED_MEDIA_TYPE.test(file.type) &&
+    (COMPRESSED_TYPE.test(file.type) || COMPRESSED_EXTENSION.test(file.name));
+  if (alreadyCompressed) return null;
+  return supportedCodecs().find(codec => peerCodecs.includes(codec)) ?? null;
+}
+
+export function compress(data: ArrayBuffer, codec: CompressionCodec): Promise<ArrayBuffer> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream(codec));
+  return new Response(stream).arrayBuffer();
+}
+
+// Stops and throws past maxBytes, so a small message can't unpack into gigabytes
+export async function decompress(data: ArrayBuffer, codec: CompressionCodec, maxBytes: number): Promise<ArrayBuffer> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream(codec)).getReader();
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.byteLength;
+    if (length > maxBytes) {
+      await reader.cancel();
+      throw new Error('Chunk unpacked to more data than it can hold');
+    }
+    parts.push(value);
+  }
+
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.byteLength;
+  }
+  return result.buffer;
+}
+
+// Sent bytes over original bytes, e.g. 0.25 when a file went over at a quarter of its size
+export class CompressionTally {
+  private original = 0;
+  private sent = 0;
+
+  add(originalBytes: number, sentBytes: number) {
+    this.original += originalBytes;
+    this.sent += sentBytes;
+  }
+
+  get originalBytes(): number {
+    return this.original;
+  }
+
+  get ratio(): number | undefined {
+    return this.original > 0 ? this.sent / this.original : undefined;
+  }
+}
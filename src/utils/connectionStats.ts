@@ -0,0 +1,53 @@
+// Numbers about the link under a transport, read from WebRTC's getStats()
+
+import { Transport } from './transport';
+
+export interface LinkStats {
+  // Seconds, or null before the first STUN round trip has been measured
+  roundTripTime: number | null;
+  // Direct covers host and server-reflexive (STUN) candidates; relayed means a TURN server
+  // is in between, and relay-server that the transport goes through relay/server.js
+  path: 'direct' | 'relayed' | 'relay-server' | null;
+}
+
+// The candidate pair the ICE agent picked, which is the path data actually takes
+function getSelectedCandidatePair(report: RTCStatsReport): RTCIceCandidatePairStats | null {
+  let selectedId: string | undefined;
+  report.forEach(stat => {
+    if (stat.type === 'transport' && stat.selectedCandidatePairId) selectedId = stat.selectedCandidatePairId;
+  });
+
+  let pair: RTCIceCandidatePairStats | null = null;
+  report.forEach(stat => {
+    if (stat.type !== 'candidate-pair') return;
+    // Firefox has no transport stats and marks the pair instead
+    if (stat.id === selectedId || (!selectedId && (stat as { selected?: boolean }).selected)) pair = stat;
+  });
+  return pair;
+}
+
+export async function getLinkStats(connection: Transport): Promise<LinkStats> {
+  if (connection.kind === 'relay') return { roundTripTime: null, path: 'relay-server' };
+  const pc = connection.peerConnection;
+  if (!pc) return { roundTripTime: null, path: null };
+  const report = await pc.getStats();
+  const pair = getSelectedCandidatePair(report);
+  if (!pair) return { roundTripTime: null, path: null };
+
+  const local = report.get(pair.localCandidateId) as { candidateType?: string } | undefined;
+  const remote = report.get(pair.remoteCandidateId) as { candidateType?: string } | undefined;
+  const path = !local?.candidateType || !remote?.candidateType
+    ? null
+    : local.candidateType === 'relay' || remote.candidateType === 'relay' ? 'relayed' : 'direct';
+  return { roundTripTime: pair.currentRoundTripTime ?? null, path };
+}
+
+export async function getRoundTripTime(connection: Transport): Promise<number | null> {
+  return (await getLinkStats(connection)).roundTripTime;
+}
+
+// The largest message the SCTP association takes, or null where the browser doesn't say
+export function getMaxMessageSize(connection: Transport): number | null {
+  const size = connection.peerConnection?.sctp?.maxMessageSize;
+  return size && Number.isFinite(size) ? size : null;
+}
@@ -0,0 +1,250 @@
+// A stable peer ID for this device, with an ECDSA key pair that proves the ID
+// is ours. Anyone can register an ID with the signaling server while we're
+// offline, but only we can sign with the private key, which never leaves
+// IndexedDB. Devices we've paired with are remembered along with their public
+// keys, so reconnecting later is one click and an impostor stands out.
+
+import { toHex } from './sha256';
+import { IDENTITY_STORE, TRUSTED_DEVICES_STORE, openDatabase, requestToPromise, transactionDone } from './transferStore';
+import { Transport } from './transport';
+
+export interface DeviceIdentity {
+  peerId: string;
+  deviceName: string;
+  keyPair: CryptoKeyPair;
+  publicKey: JsonWebKey;
+  fingerprint: string;
+}
+
+// The other end of a connection, once it has proven it holds its key
+export interface RemoteDevice {
+  peerId: string;
+  deviceName: string;
+  publicKey: JsonWebKey;
+  fingerprint: string;
+}
+
+export interface TrustedDevice extends RemoteDevice {
+  // Accept files from this device without asking
+  autoAccept: boolean;
+  addedAt: number;
+  lastSeenAt: number;
+}
+
+interface IdentityHello {
+  type: 'identity-hello';
+  deviceName: string;
+  publicKey: JsonWebKey;
+  challenge: ArrayBuffer;
+  // Set on a hello sent back in answer to the other side's, which doesn't need answering
+  reply: boolean;
+}
+
+interface IdentityProof {
+  type: 'identity-proof';
+  signature: ArrayBuffer;
+}
+
+const IDENTITY_RECORD = 'self';
+const KEY_ALGORITHM: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+const CHALLENGE_BYTES = 32;
+const EXCHANGE_TIMEOUT_MS = 15000;
+export const MAX_DEVICE_NAME_LENGTH = 40;
+
+export function generateShortId(): string {
+  const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
+  let result = 'zap-';
+  for (let i = 0; i < 6; i++) {
+    result += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return result;
+}
+
+function defaultDeviceName(): string {
+  const ua = navigator.userAgent;
+  const os = /Android/.test(ua) ? 'Android' :
+    /iPhone|iPad/.test(ua) ? 'iOS' :
+    /Mac OS X/.test(ua) ? 'Mac' :
+    /Windows/.test(ua) ? 'Windows' :
+    /Linux/.test(ua) ? 'Linux' : 'Device';
+  const browser = /Edg\//.test(ua) ? 'Edge' :
+    /Firefox\//.test(ua) ? 'Firefox' :
+    /Chrome\//.test(ua) ? 'Chrome' :
+    /Safari\//.test(ua) ? 'Safari' : 'Browser';
+  return `${browser} on ${os}`;
+}
+
+export function cleanDeviceName(name: string): string {
+  return name.replace(/\s+/g, ' ').trim().slice(0, MAX_DEVICE_NAME_LENGTH);
+}
+
+// Only the parts that define a P-256 public key, in a fixed order, so both
+// sides hash the same bytes
+async function fingerprintKey(key: JsonWebKey): Promise<string> {
+  const canonical = JSON.stringify({ crv: key.crv, kty: key.kty, x: key.x, y: key.y });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return toHex(new Uint8Array(digest));
+}
+
+export function formatFingerprint(fingerprint: string): string {
+  return fingerprint.slice(0, 16).match(/.{4}/g)!.join(' ');
+}
+
+interface StoredIdentity {
+  peerId: string;
+  deviceName: string;
+  keyPair: CryptoKeyPair;
+}
+
+async function withPublicKey(stored: StoredIdentity): Promise<DeviceIdentity> {
+  const publicKey = await crypto.subtle.exportKey('jwk', stored.keyPair.publicKey);
+  return { ...stored, publicKey, fingerprint: await fingerprintKey(publicKey) };
+}
+
+// Creates the identity on first use. The private key is generated
+// non-extractable, so not even this page can read it back out. Without
+// IndexedDB (some private windows) the identity only lasts for this visit.
+export async function loadDeviceIdentity(): Promise<DeviceIdentity> {
+  const db = await openDatabase().catch(() => null);
+  if (db) {
+    const tx = db.transaction(IDENTITY_STORE, 'readonly');
+    const stored = await requestToPromise(tx.objectStore(IDENTITY_STORE).get(IDENTITY_RECORD)) as StoredIdentity | undefined;
+    if (stored) return withPublicKey(stored);
+  }
+
+  const keyPair = await crypto.subtle.generateKey(KEY_ALGORITHM, false, ['sign', 'verify']);
+  const identity: StoredIdentity = { peerId: generateShortId(), deviceName: defaultDeviceName(), keyPair };
+  if (db) {
+    const tx = db.transaction(IDENTITY_STORE, 'readwrite');
+    tx.objectStore(IDENTITY_STORE).put(identity, IDENTITY_RECORD);
+    await transactionDone(tx);
+  }
+  return withPublicKey(identity);
+}
+
+export async function saveDeviceName(identity: DeviceIdentity, deviceName: string): Promise<DeviceIdentity> {
+  const stored: StoredIdentity = { peerId: identity.peerId, deviceName, keyPair: identity.keyPair };
+  const db = await openDatabase();
+  const tx = db.transaction(IDENTITY_STORE, 'readwrite');
+  tx.objectStore(IDENTITY_STORE).put(stored, IDENTITY_RECORD);
+  await transactionDone(tx);
+  return { ...identity, deviceName };
+}
+
+export async function listTrustedDevices(): Promise<TrustedDevice[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(TRUSTED_DEVICES_STORE, 'readonly');
+  const devices = await requestToPromise(tx.objectStore(TRUSTED_DEVICES_STORE).getAll()) as TrustedDevice[];
+  return devices.sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+}
+
+export async function saveTrustedDevice(device: TrustedDevice): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(TRUSTED_DEVICES_STORE, 'readwrite');
+  tx.objectStore(TRUSTED_DEVICES_STORE).put(device);
+  await transactionDone(tx);
+}
+
+export async function removeTrustedDevice(peerId: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(TRUSTED_DEVICES_STORE, 'readwrite');
+  tx.objectStore(TRUSTED_DEVICES_STORE).delete(peerId);
+  await transactionDone(tx);
+}
+
+// What gets signed: the other side's fresh challenge, who is signing, and the
+// connection's DTLS fingerprints (the short auth string key). The last part
+// means a signature can't be relayed onto a different connection by a
+// man-in-the-middle.
+function signedBytes(challenge: ArrayBuffer, signerPeerId: string, channelBinding: string): Uint8Array<ArrayBuffer> {
+  const suffix = new TextEncoder().encode(`\nzapdrop-identity-v1\n${signerPeerId}\n${channelBinding}`);
+  const bytes = new Uint8Array(challenge.byteLength + suffix.length);
+  bytes.set(new Uint8Array(challenge));
+  bytes.set(suffix, challenge.byteLength);
+  return bytes;
+}
+
+// Both sides run this when a connection opens. Resolves with the other device
+// once it has signed our challenge; rejects if the signature is bad or the
+// other side never answers (an older version of the app, for one).
+// localPeerId is the ID this page is connected under, which differs from
+// identity.peerId when that was taken.
+//
+// A hello can arrive before the other side is listening, so a hello that
+// isn't itself a reply gets ours sent back, in case the first one was lost.
+export function exchangeIdentity(
+  connection: Transport,
+  identity: DeviceIdentity,
+  localPeerId: string,
+  channelBinding: string
+): Promise<RemoteDevice> {
+  return new Promise((resolve, reject) => {
+    const challenge = crypto.getRandomValues(new Uint8Array(CHALLENGE_BYTES)).buffer;
+    let hello: IdentityHello | null = null;
+    const sendHello = (reply: boolean) => {
+      const ownHello: IdentityHello = {
+        type: 'identity-hello',
+        deviceName: identity.deviceName,
+        publicKey: identity.publicKey,
+        challenge,
+        reply
+      };
+      connection.send(ownHello);
+    };
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      stopData();
+      stopClose();
+    };
+    const fail = (message: string) => {
+      cleanup();
+      reject(new Error(message));
+    };
+    const handleClose = () => fail('Connection closed');
+    const timer = setTimeout(() => fail(`${connection.peer} did not identify itself`), EXCHANGE_TIMEOUT_MS);
+
+    const handleData = async (data: unknown) => {
+      const message = data as IdentityHello | IdentityProof;
+      if (message?.type === 'identity-hello') {
+        if (!message.reply) sendHello(true);
+        hello = message;
+        const signature = await crypto.subtle.sign(
+          SIGN_ALGORITHM,
+          identity.keyPair.privateKey,
+          signedBytes(message.challenge, localPeerId, channelBinding)
+        );
+        const proof: IdentityProof = { type: 'identity-proof', signature };
+        connection.send(proof);
+      } else if (message?.type === 'identity-proof') {
+        // Messages arrive in order, so the hello is already here
+        const remoteHello = hello;
+        if (!remoteHello) return fail(`${connection.peer} sent a proof before saying hello`);
+        try {
+          const publicKey = await crypto.subtle.importKey('jwk', remoteHello.publicKey, KEY_ALGORITHM, true, ['verify']);
+          const valid = await crypto.subtle.verify(
+            SIGN_ALGORITHM,
+            publicKey,
+            message.signature,
+            signedBytes(challenge, connection.peer, channelBinding)
+          );
+          if (!valid) return fail(`${connection.peer} could not prove its identity`);
+        } catch {
+          return fail(`${connection.peer} sent an unusable key`);
+        }
+        cleanup();
+        resolve({
+          peerId: connection.peer,
+          deviceName: cleanDeviceName(String(remoteHello.deviceName ?? '')) || connection.peer,
+          publicKey: remoteHello.publicKey,
+          fingerprint: await fingerprintKey(remoteHello.publicKey)
+        });
+      }
+    };
+
+    const stopData = connection.onMessage(handleData);
+    const stopClose = connection.onClose(handleClose);
+    sendHello(false);
+  });
+}
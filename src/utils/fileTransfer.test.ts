@@ -0,0 +1,83 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { CompletedFile, FileReceiver, FileSender, offerFiles } from './fileTransfer';
+import { StorageError, createMemoryStorage } from './receiveStorage';
+import { createTransportPair } from './transport';
+
+function makeFile(size: number, name = 'data.bin'): { file: File; bytes: Uint8Array } {
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i++) bytes[i] = (i * 31 + (i >> 8)) & 0xff;
+  return { file: new File([bytes], name, { type: 'application/octet-stream' }), bytes };
+}
+
+function connect() {
+  const [senderEnd, receiverEnd] = createTransportPair('alice', 'bob');
+  const receiver = new FileReceiver(receiverEnd);
+  receiver.resolveStorage = async target => createMemoryStorage(target);
+  return { senderEnd, receiver };
+}
+
+describe('FileSender to FileReceiver', () => {
+  it('sends an accepted file in chunks and completes with the same bytes', async () => {
+    const { senderEnd, receiver } = connect();
+    const offered: string[] = [];
+    receiver.onOffer = offer => {
+      offered.push(...offer.files.map(f => f.fileName));
+      receiver.answerOffer(offer.offerId, true);
+    };
+    const progress: number[] = [];
+    receiver.onProgress = (_transferId, percent) => progress.push(percent);
+    const completed = new Promise<CompletedFile>((resolve, reject) => {
+      receiver.onComplete = resolve;
+      receiver.onError = reject;
+    });
+
+    // Big enough for several chunk messages
+    const { file, bytes } = makeFile(300 * 1024 + 123);
+    const sender = new FileSender(senderEnd, file);
+    const accepted = await offerFiles(senderEnd, [sender]);
+    expect(offered).toEqual(['data.bin']);
+    expect(accepted.has(sender.transferId)).toBe(true);
+
+    await sender.send();
+    const result = await completed;
+
+    expect(result.transferId).toBe(sender.transferId);
+    expect(result.fileSize).toBe(bytes.length);
+    expect(result.fileHash).toBe(sender.fileHash);
+    expect(result.storage).toBe('memory');
+    expect(new Uint8Array(await result.file!.arrayBuffer())).toEqual(bytes);
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress[progress.length - 1]).toBe(100);
+  });
+
+  it('sends nothing for a declined offer', async () => {
+    const { senderEnd, receiver } = connect();
+    receiver.onOffer = offer => receiver.answerOffer(offer.offerId, false);
+    let started = false;
+    receiver.onStart = () => { started = true; };
+
+    const sender = new FileSender(senderEnd, makeFile(1024).file);
+    const accepted = await offerFiles(senderEnd, [sender]);
+
+    expect(accepted.size).toBe(0);
+    expect(started).toBe(false);
+  });
+
+  it('stops the sender when the receiver has nowhere to put the file', async () => {
+    const { senderEnd, receiver } = connect();
+    receiver.onOffer = offer => receiver.answerOffer(offer.offerId, true);
+    receiver.resolveStorage = async () => {
+      throw new StorageError('No room');
+    };
+    const failed = new Promise<Error>(resolve => {
+      receiver.onError = resolve;
+    });
+
+    const sender = new FileSender(senderEnd, makeFile(64 * 1024).file);
+    await offerFiles(senderEnd, [sender]);
+
+    await expect(sender.send()).rejects.toThrow('Receiver had nowhere to save the file');
+    expect(await failed).toBeInstanceOf(StorageError);
+  });
+});
@@ -1,134 +1,1099 @@
-import { DataConnection } from 'peerjs';
+import {
+  createChunkBitmap,
+  deletePartialTransfer,
+  getPartialTransfer,
+  hasChunk,
+  savePartialTransfer,
+  setChunk
+} from './transferStore';
+import { Sha256, buffersEqual, sha256, toHex } from './sha256';
+import { createThumbnail } from './thumbnails';
+import { ChunkSizer, MAX_MESSAGE_SIZE } from './chunkSizing';
+import { getMaxMessageSize, getRoundTripTime } from './connectionStats';
+import { TransferMeter, TransferStats } from './transferStats';
+import { Transport, waitForDrain } from './transport';
+import { CompressionCodec, CompressionTally, compress, decompress, pickCodec, supportedCodecs } from './compression';
+import { ChunkCipher, DecryptionError, createSalt } from './chunkCrypto';
+import {
+  IntegrityError,
+  ReceiveStorage,
+  StorageError,
+  StorageKind,
+  StorageTarget,
+  createDefaultStorage,
+  reopenStorage
+} from './receiveStorage';
 
-const CHUNK_SIZE = 16 * 1024; // 16KB chunks
+// Files are tracked in 16KB blocks: the received bitmap, resume and repair
+// requests all count in these. A chunk message carries one or more whole
+// blocks, as many as ChunkSizer picks.
+const CHUNK_SIZE = 16 * 1024;
+
+// Label of the extra connections a sender can stripe chunks across, see usePeer.ts
+export const LANE_LABEL_PREFIX = 'zapdrop-lane';
+
+// Received-chunk bitmaps of resumable transfers are saved this often
+const PERSIST_EVERY_CHUNKS = 256;
+
+// How many times the sender re-sends chunks the receiver reports missing or corrupt
+const MAX_REPAIR_ATTEMPTS = 3;
+
+// A file that hasn't shrunk below this ratio after this much data goes on uncompressed
+const COMPRESSION_TRIAL_BYTES = 1024 * 1024;
+const MIN_COMPRESSION_GAIN = 0.9;
+
+// Every message carries the transferId the sender picked for that file, so
+// several files can be in flight at once, in both directions, on one connection
+
+export interface OfferedFile {
+  transferId: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  relativePath?: string; // e.g. "photos/2024/beach.jpg" when sent as part of a folder
+  thumbnail?: string; // small JPEG data URL for images and videos
+}
+
+// Sender -> receiver: files it would like to send. Nothing is streamed until
+// the receiver answers.
+interface FileOffer {
+  type: 'offer';
+  offerId: string;
+  files: OfferedFile[];
+}
+
+// Receiver -> sender: which of the offered transfers it accepted
+interface FileAnswer {
+  type: 'answer';
+  offerId: string;
+  accepted: string[];
+  // What the receiver can decompress
+  codecs?: CompressionCodec[];
+}
 
 interface FileMetadata {
   type: 'metadata';
+  transferId: string;
+  fileKey: string;
   fileName: string;
   fileType: string;
   fileSize: number;
+  relativePath?: string;
   totalChunks: number;
+  // Present when chunks are encrypted with a passphrase (see chunkCrypto.ts)
+  encryption?: { salt: ArrayBuffer };
+  // Present when chunks may be compressed; each chunk says whether it is
+  compression?: CompressionCodec;
 }
 
+// May arrive on any lane, not just the main connection
 interface FileChunk {
   type: 'chunk';
-  index: number;
-  data: ArrayBuffer;
+  transferId: string;
+  index: number; // first block; the data's length says how many follow
+  data: ArrayBuffer; // AES-GCM ciphertext when the transfer is encrypted
+  iv?: ArrayBuffer;
+  compressed?: boolean; // compressed before encryption, with the metadata's codec
+  hash: ArrayBuffer; // SHA-256 of data as sent
 }
 
 interface FileComplete {
   type: 'complete';
+  transferId: string;
+  fileHash: string; // hex SHA-256 of the whole file
+}
+
+// Receiver -> sender: which chunks it already holds from an earlier attempt
+interface FileResume {
+  type: 'resume';
+  transferId: string;
+  received: ArrayBuffer;
+}
+
+// Receiver -> sender: chunks that never arrived or failed their hash check
+interface FileRequest {
+  type: 'request';
+  transferId: string;
+  indexes: number[];
+}
+
+// Receiver -> sender: outcome of the whole-file hash check. Also sent early,
+// with a reason, when the receiver can't go on with a transfer at all.
+interface FileVerified {
+  type: 'verified';
+  transferId: string;
+  ok: boolean;
+  reason?: 'decryption' | 'storage';
+}
+
+// Either direction: pause, resume or cancel one transfer. Whoever paused it,
+// either side can resume it.
+interface TransferControl {
+  type: 'control';
+  transferId: string;
+  action: 'pause' | 'resume' | 'cancel';
 }
 
-type FileMessage = FileMetadata | FileChunk | FileComplete;
+// Either direction: a short piece of text, like a link or a one-time code
+interface TextMessage {
+  type: 'text';
+  messageId: string;
+  text: string;
+  sentAt: number;
+}
+
+type FileMessage =
+  | TextMessage
+  | FileOffer
+  | FileAnswer
+  | FileMetadata
+  | FileChunk
+  | FileComplete
+  | FileResume
+  | FileRequest
+  | FileVerified
+  | TransferControl;
+
+// Identifies the same file across reconnects and reloads on either side
+function getFileKey(file: File, relativePath?: string): string {
+  return `${relativePath ?? file.name}:${file.size}:${file.lastModified}`;
+}
+
+function createTransferId(): string {
+  return Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
+
+// One salt for everything this page sends, so the passphrase is only stretched once per receiver
+let sessionSalt: ArrayBuffer | null = null;
+function getSessionSalt(): ArrayBuffer {
+  sessionSalt ??= createSalt();
+  return sessionSalt;
+}
+
+export class TransferCancelledError extends Error {
+  constructor(message: string, public readonly byPeer: boolean) {
+    super(message);
+    this.name = 'TransferCancelledError';
+  }
+}
+
+function sendControl(connection: Transport, transferId: string, action: TransferControl['action']) {
+  const control: TransferControl = { type: 'control', transferId, action };
+  connection.send(control);
+}
+
+function refusalError(reason: FileVerified['reason']): Error {
+  if (reason === 'decryption') {
+    return new Error('Receiver could not decrypt the file. Check both devices use the same passphrase.');
+  }
+  return reason === 'storage'
+    ? new Error('Receiver had nowhere to save the file')
+    : new Error('Receiver could not verify the file');
+}
+
+function waitForMessage<T extends FileMessage>(
+  connection: Transport,
+  match: (message: FileMessage) => message is T,
+  signal?: AbortSignal
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onData = (data: unknown) => {
+      const message = data as FileMessage;
+      if (match(message)) {
+        cleanup();
+        resolve(message);
+      }
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error('Connection closed while sending'));
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(signal!.reason);
+    };
+    const cleanup = () => {
+      stopData();
+      stopClose();
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    const stopData = connection.onMessage(onData);
+    const stopClose = connection.onClose(onClose);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+// Longer text goes as a .txt file instead, see App.tsx
+export const MAX_TEXT_LENGTH = 64 * 1024;
+
+export interface ChatText {
+  messageId: string;
+  text: string;
+  sentAt: number;
+}
+
+export function sendText(connection: Transport, text: string): ChatText {
+  const message: TextMessage = {
+    type: 'text',
+    messageId: createTransferId(),
+    text: text.slice(0, MAX_TEXT_LENGTH),
+    sentAt: Date.now()
+  };
+  connection.send(message);
+  return { messageId: message.messageId, text: message.text, sentAt: message.sentAt };
+}
+
+// Offers a batch of files and resolves with the transferIds the receiver accepted
+export async function offerFiles(connection: Transport, senders: FileSender[]): Promise<Set<string>> {
+  const offerId = createTransferId();
+  const answer = waitForMessage(
+    connection,
+    (m): m is FileAnswer => m.type === 'answer' && m.offerId === offerId
+  );
+
+  const offer: FileOffer = {
+    type: 'offer',
+    offerId,
+    files: await Promise.all(senders.map(sender => sender.describe()))
+  };
+  connection.send(offer);
+
+  const reply = await answer;
+  senders.forEach(sender => { sender.peerCodecs = reply.codecs ?? []; });
+  return new Set(reply.accepted);
+}
+
+export interface FileSenderOptions {
+  relativePath?: string;
+  // Encrypts every chunk with a key derived from this, see chunkCrypto.ts
+  passphrase?: string;
+  // Extra open connections to the same peer that chunks can go over as well
+  lanes?: () => Transport[];
+  // Compress chunks of file types that aren't compressed already, see compression.ts
+  compress?: boolean;
+  // Made already, e.g. while the file was staged; otherwise the offer makes one
+  thumbnail?: string;
+}
 
 export class FileSender {
-  private connection: DataConnection;
+  private connection: Transport;
   private file: File;
-  public onProgress: ((progress: number) => void) | null = null;
+  private relativePath?: string;
+  private passphrase?: string;
+  private lanes: () => Transport[];
+  private compress: boolean;
+  private thumbnail?: string;
+  private codec: CompressionCodec | null = null;
+  private compression = new CompressionTally();
+  private cipher: ChunkCipher | null = null;
+  private sizer: ChunkSizer | null = null;
+  // Bytes handed to any channel; what has left the queues is this minus what's still buffered
+  private queuedBytes = 0;
+  private refusal: Error | null = null;
+  private paused = false;
+  private unpause: (() => void) | null = null;
+  public readonly transferId = createTransferId();
+  // Codecs the receiver can decompress, filled in by offerFiles
+  public peerCodecs: CompressionCodec[] = [];
+  // Hex SHA-256 of the file, once every chunk has been read
+  public fileHash: string | null = null;
+  public onProgress: ((progress: number, stats: TransferStats) => void) | null = null;
+  // Called when either side pauses or resumes the transfer
+  public onPausedChange: ((paused: boolean) => void) | null = null;
 
-  constructor(connection: DataConnection, file: File) {
+  constructor(connection: Transport, file: File, options: FileSenderOptions = {}) {
     this.connection = connection;
     this.file = file;
+    this.relativePath = options.relativePath;
+    this.passphrase = options.passphrase;
+    this.lanes = options.lanes ?? (() => []);
+    this.compress = options.compress ?? false;
+    this.thumbnail = options.thumbnail;
+  }
+
+  async describe(): Promise<OfferedFile> {
+    return {
+      transferId: this.transferId,
+      fileName: this.file.name,
+      fileType: this.file.type,
+      fileSize: this.file.size,
+      relativePath: this.relativePath,
+      thumbnail: this.thumbnail ?? await createThumbnail(this.file)
+    };
+  }
+
+  // Moves the transfer onto a new connection to the same peer after the old one
+  // dropped. Offer it again; the receiver lets through transfers it already
+  // accepted, and send() carries on from the chunks it has.
+  reattach(connection: Transport) {
+    this.connection = connection;
+  }
+
+  pause() {
+    if (this.paused) return;
+    sendControl(this.connection, this.transferId, 'pause');
+    this.setPaused(true);
+  }
+
+  resume() {
+    if (!this.paused) return;
+    sendControl(this.connection, this.transferId, 'resume');
+    this.setPaused(false);
+  }
+
+  private setPaused(paused: boolean) {
+    if (this.paused === paused) return;
+    this.paused = paused;
+    if (!paused) {
+      this.unpause?.();
+      this.unpause = null;
+    }
+    this.onPausedChange?.(paused);
   }
 
-  async send(): Promise<void> {
+  private waitWhilePaused(signal: AbortSignal): Promise<void> {
+    if (!this.paused) return Promise.resolve();
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.unpause = () => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      };
+    });
+  }
+
+  // Only call once the receiver has accepted this transfer (see offerFiles).
+  // Aborting the signal cancels the transfer on both ends and rejects with a
+  // TransferCancelledError, as does the receiver cancelling it.
+  async send(signal?: AbortSignal): Promise<void> {
+    const stop = new AbortController();
+    const onAbort = () => {
+      if (this.connection.open) sendControl(this.connection, this.transferId, 'cancel');
+      stop.abort(new TransferCancelledError('Transfer cancelled', false));
+    };
+    const onMessage = (data: unknown) => {
+      const message = data as FileMessage;
+      // The receiver can refuse the transfer at any point, e.g. when it can't decrypt it
+      if (message.type === 'verified' && message.transferId === this.transferId && message.reason) {
+        this.refusal = refusalError(message.reason);
+      } else if (message.type === 'control' && message.transferId === this.transferId) {
+        if (message.action === 'cancel') {
+          stop.abort(new TransferCancelledError(`${this.connection.peer} cancelled the transfer`, true));
+        } else {
+          this.setPaused(message.action === 'pause');
+        }
+      }
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      throw stop.signal.reason;
+    }
+    signal?.addEventListener('abort', onAbort);
+    const stopListening = this.connection.onMessage(onMessage);
+    try {
+      await this.sendFile(stop.signal);
+    } finally {
+      stopListening();
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private async sendFile(signal: AbortSignal) {
+    const { transferId } = this;
     const totalChunks = Math.ceil(this.file.size / CHUNK_SIZE);
 
-    // Send metadata first
+    const salt = getSessionSalt();
+    // Kept across attempts, so the nonce counter carries on instead of starting over
+    if (this.passphrase && !this.cipher) {
+      this.cipher = await ChunkCipher.create(this.passphrase, salt, transferId);
+    }
+
+    this.codec = this.compress ? pickCodec(this.file, this.peerCodecs) : null;
+    this.compression = new CompressionTally();
+
+    // Send metadata first, then wait for the receiver to say what it already has
+    const resumeReply = waitForMessage(
+      this.connection,
+      (m): m is FileResume | FileVerified =>
+        (m.type === 'resume' || m.type === 'verified') && m.transferId === transferId,
+      signal
+    );
     const metadata: FileMetadata = {
       type: 'metadata',
+      transferId,
+      fileKey: getFileKey(this.file, this.relativePath),
       fileName: this.file.name,
       fileType: this.file.type,
       fileSize: this.file.size,
-      totalChunks
+      relativePath: this.relativePath,
+      totalChunks,
+      encryption: this.cipher ? { salt } : undefined,
+      compression: this.codec ?? undefined
     };
     this.connection.send(metadata);
+    const resume = await resumeReply;
+    if (resume.type === 'verified') {
+      throw refusalError(resume.reason);
+    }
+    const received = new Uint8Array(resume.received);
+    // A new connection after a reconnect can take different message sizes
+    this.sizer = new ChunkSizer(CHUNK_SIZE, getMaxMessageSize(this.connection));
+    this.sizer.restart(this.getSentBytes());
+    const meter = new TransferMeter(this.file.size);
 
-    // Send chunks
-    for (let i = 0; i < totalChunks; i++) {
-      const start = i * CHUNK_SIZE;
-      const end = Math.min(start + CHUNK_SIZE, this.file.size);
-      const chunk = this.file.slice(start, end);
-      const arrayBuffer = await chunk.arrayBuffer();
-
-      const chunkMessage: FileChunk = {
-        type: 'chunk',
-        index: i,
-        data: arrayBuffer
-      };
+    // Send chunks, each a run of blocks that the receiver either has or hasn't.
+    // Blocks it already has are still read so they go into the file hash.
+    const fileHasher = new Sha256();
+    for (let i = 0; i < totalChunks;) {
+      if (this.refusal) throw this.refusal;
+      if (this.paused) {
+        await this.waitWhilePaused(signal);
+        this.sizer.restart(this.getSentBytes());
+        meter.restart();
+      }
+      signal.throwIfAborted();
 
-      this.connection.send(chunkMessage);
+      const have = hasChunk(received, i);
+      let count = 1;
+      while (count < this.sizer.blocksPerMessage && i + count < totalChunks && hasChunk(received, i + count) === have) {
+        count++;
+      }
+      const data = await this.readBlocks(i, count);
+      fileHasher.update(data);
+      if (have) {
+        meter.skip(data.byteLength);
+      } else {
+        await this.sendChunk(i, data);
+        const stats: TransferStats = { ...meter.add(data.byteLength), compressionRatio: this.compression.ratio };
+        if (this.sizer.update(this.getSentBytes())) {
+          getRoundTripTime(this.connection).then(rtt => this.sizer?.setRoundTripTime(rtt), () => {});
+        }
+        if (this.onProgress) {
+          this.onProgress(Math.round(((i + count) / totalChunks) * 100), stats);
+        }
+      }
+      i += count;
+    }
+
+    const fileHash = toHex(fileHasher.digest());
+    this.fileHash = fileHash;
+    // Chunks still queued on a lane would otherwise arrive after 'complete' and look missing
+    await this.waitForLanesToDrain();
 
-      const progress = Math.round(((i + 1) / totalChunks) * 100);
-      if (this.onProgress) {
-        this.onProgress(progress);
+    // Send complete signal, then re-send whatever the receiver couldn't verify
+    for (let attempt = 0; ; attempt++) {
+      if (this.refusal) throw this.refusal;
+      const reply = waitForMessage(
+        this.connection,
+        (m): m is FileRequest | FileVerified =>
+          (m.type === 'request' || m.type === 'verified') && m.transferId === transferId,
+        signal
+      );
+      const complete: FileComplete = { type: 'complete', transferId, fileHash };
+      this.connection.send(complete);
+
+      const result = await reply;
+      if (result.type === 'verified') {
+        if (!result.ok) {
+          throw refusalError(result.reason);
+        }
+        return;
       }
 
-      // Small delay to prevent overwhelming the connection
-      if (i % 10 === 0) {
-        await new Promise(resolve => setTimeout(resolve, 1));
+      if (attempt >= MAX_REPAIR_ATTEMPTS) {
+        throw new Error('Too many corrupted or missing chunks');
       }
+      for (const index of result.indexes) {
+        signal.throwIfAborted();
+        await this.sendChunk(index, await this.readBlocks(index, 1));
+      }
+      await this.waitForLanesToDrain();
     }
+  }
 
-    // Send complete signal
-    const complete: FileComplete = { type: 'complete' };
-    this.connection.send(complete);
+  private async readBlocks(index: number, count: number): Promise<ArrayBuffer> {
+    const start = index * CHUNK_SIZE;
+    const end = Math.min(start + count * CHUNK_SIZE, this.file.size);
+    return this.file.slice(start, end).arrayBuffer();
   }
+
+  // The main connection and any open lanes
+  private getChannels(): Transport[] {
+    const lanes = this.lanes().filter(lane => lane.open && lane.peer === this.connection.peer);
+    return [this.connection, ...lanes];
+  }
+
+  private getSentBytes(): number {
+    const buffered = this.getChannels().reduce((sum, channel) => sum + channel.bufferedAmount, 0);
+    return this.queuedBytes - buffered;
+  }
+
+  // Goes on whichever channel has the least queued, once that's under the target
+  private async sendChunk(index: number, data: ArrayBuffer) {
+    const channel = this.getChannels().reduce((best, candidate) =>
+      candidate.bufferedAmount < best.bufferedAmount ? candidate : best
+    );
+    await waitForDrain(channel, this.sizer?.bufferTarget ?? 0);
+
+    let compressed: ArrayBuffer | null = null;
+    if (this.codec) {
+      const packed = await compress(data, this.codec);
+      // Chunks that don't get smaller go as they are
+      if (packed.byteLength < data.byteLength) compressed = packed;
+      this.compression.add(data.byteLength, compressed?.byteLength ?? data.byteLength);
+      const { originalBytes, ratio } = this.compression;
+      if (originalBytes >= COMPRESSION_TRIAL_BYTES && ratio !== undefined && ratio > MIN_COMPRESSION_GAIN) {
+        this.codec = null;
+      }
+    }
+
+    const plain = compressed ?? data;
+    const encrypted = this.cipher ? await this.cipher.encrypt(index, plain) : null;
+    const payload = encrypted ? encrypted.data : plain;
+    const chunkMessage: FileChunk = {
+      type: 'chunk',
+      transferId: this.transferId,
+      index,
+      data: payload,
+      iv: encrypted?.iv,
+      compressed: compressed ? true : undefined,
+      hash: await sha256(payload)
+    };
+    channel.send(chunkMessage);
+    this.queuedBytes += payload.byteLength;
+  }
+
+  // A lane that closes first takes its chunks with it; they get re-requested
+  private async waitForLanesToDrain() {
+    const lanes = this.getChannels().slice(1);
+    await Promise.all(lanes.map(lane => waitForDrain(lane, 0).catch(() => {})));
+  }
+}
+
+export interface IncomingOffer {
+  offerId: string;
+  files: OfferedFile[];
+}
+
+export interface IncomingFile {
+  transferId: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  relativePath?: string;
+}
+
+// A file still being received, read back in order to play it as it arrives (see progressivePlayback.ts)
+export interface ReceivingFile {
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  // How many bytes from offset have arrived with no gaps, counting at most max
+  availableFrom(offset: number, max: number): number;
+  read(offset: number, length: number): Promise<Blob>;
+  // Called with each run of data as it's written; returns a function that stops it
+  onWrite(listener: (offset: number, data: ArrayBuffer) => void): () => void;
+}
+
+export interface CompletedFile extends IncomingFile {
+  // Null when the data went straight to a browser download and can't be read back
+  file: File | null;
+  fileHash: string;
+  storage: StorageKind;
+}
+
+interface IncomingTransfer {
+  metadata: FileMetadata;
+  // The sender's fileKey scoped to its peer ID, which is what incomingTransfers
+  // and the partial-transfer store go by
+  key: string;
+  storage: ReceiveStorage;
+  received: Uint8Array;
+  receivedChunks: number;
+  cipher: ChunkCipher | null;
+  // Speed of the current attempt, and how much compression saved
+  meter: TransferMeter;
+  compression: CompressionTally;
+  // Players following the file as it arrives, see FileReceiver.watchTransfer
+  watchers: Set<(offset: number, data: ArrayBuffer) => void>;
+}
+
+// Outlives any single FileReceiver, so a transfer that was cut off can carry on
+// into the same storage when the peer reconnects. Keyed by fileKey, since a
+// sender that starts over picks a new transferId.
+const incomingTransfers = new Map<string, IncomingTransfer>();
+// Transfers the user accepted that haven't finished. A sender that reconnects
+// mid-transfer offers them again, and they go through without asking twice.
+const acceptedTransferIds = new Set<string>();
+
+// Both of the above are scoped to the peer, as the keys and IDs come from the
+// sender: another peer using the same ones gets nowhere near the transfer
+function peerScoped(peer: string, id: string): string {
+  return `${peer}/${id}`;
+}
+
+// Thumbnails are shown before the offer is accepted or the connection verified,
+// so only small inline JPEGs and PNGs get through. A remote URL would let a
+// third party see the offer being looked at.
+const MAX_THUMBNAIL_LENGTH = 32 * 1024;
+const THUMBNAIL_PREFIXES = ['data:image/jpeg;base64,', 'data:image/png;base64,'];
+
+function sanitizeThumbnail(thumbnail: unknown): string | undefined {
+  if (typeof thumbnail !== 'string' || thumbnail.length > MAX_THUMBNAIL_LENGTH) return undefined;
+  const prefix = THUMBNAIL_PREFIXES.find(p => thumbnail.startsWith(p));
+  if (!prefix || !/^[A-Za-z0-9+/]*={0,2}$/.test(thumbnail.slice(prefix.length))) return undefined;
+  return thumbnail;
 }
 
 export class FileReceiver {
-  private connection: DataConnection;
-  private chunks: ArrayBuffer[] = [];
-  private metadata: FileMetadata | null = null;
-  private receivedChunks = 0;
+  private connection: Transport;
+  // Each lane with the function that stops listening to it
+  private lanes = new Map<Transport, () => void>();
+  private stopListening: () => void;
+  private transfers = new Map<string, IncomingTransfer>();
+  // Offers waiting on the user, and the transfers they let through
+  private offers = new Map<string, OfferedFile[]>();
+  private acceptedTransfers = new Set<string>();
+  // Each transfer's messages are handled one at a time so its chunk writes
+  // finish before its 'complete', without holding up other transfers
+  private queues = new Map<string, Promise<void>>();
 
-  public onStart: (() => void) | null = null;
-  public onProgress: ((progress: number) => void) | null = null;
-  public onComplete: ((blob: Blob, fileName: string, fileType: string) => void) | null = null;
-  public onError: ((error: Error) => void) | null = null;
+  public onOffer: ((offer: IncomingOffer) => void) | null = null;
+  public onText: ((text: ChatText) => void) | null = null;
+  public onStart: ((incoming: IncomingFile) => void) | null = null;
+  // Stats come with progress made by arriving data, not with progress restored on a resume
+  public onProgress: ((transferId: string, progress: number, stats?: TransferStats) => void) | null = null;
+  public onComplete: ((completed: CompletedFile) => void) | null = null;
+  public onError: ((error: Error, transferId: string) => void) | null = null;
+  // Called when either side pauses, resumes or cancels a transfer
+  public onPausedChange: ((transferId: string, paused: boolean) => void) | null = null;
+  public onCancel: ((transferId: string, byPeer: boolean) => void) | null = null;
+  // Must match the sender's, see chunkCrypto.ts. Unencrypted files are refused while one is set.
+  public passphrase: string | null = null;
+  // Picks where a new incoming file is written; defaults to createDefaultStorage
+  public resolveStorage: ((target: StorageTarget) => Promise<ReceiveStorage>) | null = null;
 
-  constructor(connection: DataConnection) {
+  constructor(connection: Transport) {
     this.connection = connection;
-    this.setupListener();
+    this.stopListening = connection.onMessage(this.handleData);
   }
 
-  private setupListener() {
-    this.connection.on('data', (data: unknown) => {
-      try {
-        const message = data as FileMessage;
-
-        if (message.type === 'metadata') {
-          this.metadata = message;
-          this.chunks = new Array(message.totalChunks);
-          this.receivedChunks = 0;
-          if (this.onStart) {
-            this.onStart();
-          }
-        } else if (message.type === 'chunk' && this.metadata) {
-          this.chunks[message.index] = message.data;
-          this.receivedChunks++;
+  destroy() {
+    this.stopListening();
+    this.lanes.forEach(stop => stop());
+    this.lanes.clear();
+  }
 
-          const progress = Math.round((this.receivedChunks / this.metadata.totalChunks) * 100);
-          if (this.onProgress) {
-            this.onProgress(progress);
-          }
-        } else if (message.type === 'complete' && this.metadata) {
-          const blob = new Blob(this.chunks, { type: this.metadata.fileType });
-          if (this.onComplete) {
-            this.onComplete(blob, this.metadata.fileName, this.metadata.fileType);
-          }
+  // An extra connection from the same peer that the sender may stripe chunks across
+  addLane(lane: Transport) {
+    if (this.lanes.has(lane)) return;
+    const stopData = lane.onMessage(this.handleLaneData);
+    const stopClose = lane.onClose(() => {
+      stopData();
+      this.lanes.delete(lane);
+    });
+    this.lanes.set(lane, () => {
+      stopData();
+      stopClose();
+    });
+  }
+
+  answerOffer(offerId: string, accept: boolean) {
+    const files = this.offers.get(offerId);
+    if (!files) return;
+    this.offers.delete(offerId);
+
+    const accepted = accept ? files.map(f => f.transferId) : [];
+    for (const transferId of accepted) {
+      this.acceptedTransfers.add(transferId);
+      acceptedTransferIds.add(peerScoped(this.connection.peer, transferId));
+    }
+
+    const answer: FileAnswer = { type: 'answer', offerId, accepted, codecs: supportedCodecs() };
+    this.connection.send(answer);
+  }
+
+  pauseTransfer(transferId: string) {
+    this.control(transferId, 'pause');
+    this.onPausedChange?.(transferId, true);
+  }
+
+  resumeTransfer(transferId: string) {
+    this.control(transferId, 'resume');
+    this.transfers.get(transferId)?.meter.restart();
+    this.onPausedChange?.(transferId, false);
+  }
+
+  // Works on transfers cut off by a dropped connection too, whose data would otherwise wait for a resume
+  cancelTransfer(transferId: string) {
+    this.control(transferId, 'cancel');
+    this.enqueue(transferId, async () => {
+      await this.discardTransfer(transferId);
+      this.onCancel?.(transferId, false);
+    });
+  }
+
+  // For playing a file before it has all arrived. Null when the transfer isn't
+  // here or its storage can't be read back until it's done, like a browser download.
+  watchTransfer(transferId: string): ReceivingFile | null {
+    const transfer = this.transfers.get(transferId);
+    const storage = transfer?.storage;
+    if (!transfer || !storage?.read || !storage.readableFrom) return null;
+
+    const { fileName, fileType, fileSize, totalChunks } = transfer.metadata;
+    return {
+      fileName,
+      fileType,
+      fileSize,
+      availableFrom: (offset, max) => {
+        const end = Math.min(offset + max, fileSize);
+        let block = Math.floor(offset / CHUNK_SIZE);
+        while (block < totalChunks && block * CHUNK_SIZE < end && hasChunk(transfer.received, block)) block++;
+        const received = Math.max(Math.min(block * CHUNK_SIZE, end) - offset, 0);
+        return received > 0 ? storage.readableFrom!(offset, received) : 0;
+      },
+      read: (offset, length) => storage.read!(offset, length),
+      onWrite: (listener) => {
+        transfer.watchers.add(listener);
+        return () => transfer.watchers.delete(listener);
+      }
+    };
+  }
+
+  private control(transferId: string, action: TransferControl['action']) {
+    if (this.connection.open) sendControl(this.connection, transferId, action);
+  }
+
+  // Drops a transfer along with whatever it had written so far
+  private async discardTransfer(transferId: string) {
+    this.acceptedTransfers.delete(transferId);
+    acceptedTransferIds.delete(peerScoped(this.connection.peer, transferId));
+    const transfer = this.transfers.get(transferId) ??
+      Array.from(incomingTransfers.values()).find(t =>
+        t.metadata.transferId === transferId && t.key === peerScoped(this.connection.peer, t.metadata.fileKey)
+      );
+    if (!transfer) return;
+
+    this.transfers.delete(transferId);
+    incomingTransfers.delete(transfer.key);
+    await deletePartialTransfer(transfer.key);
+    await transfer.storage.discard().catch(() => {});
+  }
+
+  private handleData = (data: unknown) => {
+    const message = data as FileMessage;
+    if (message.type === 'text') {
+      if (this.onText && typeof message.text === 'string') {
+        const { messageId, text, sentAt } = message;
+        this.onText({ messageId, text: text.slice(0, MAX_TEXT_LENGTH), sentAt });
+      }
+      return;
+    }
+    if (message.type === 'offer') {
+      if (!Array.isArray(message.files)) return;
+      const files = message.files.map(f => ({ ...f, thumbnail: sanitizeThumbnail(f.thumbnail) }));
+      this.offers.set(message.offerId, files);
+      if (files.every(f => acceptedTransferIds.has(peerScoped(this.connection.peer, f.transferId)))) {
+        this.answerOffer(message.offerId, true);
+        return;
+      }
+      if (this.onOffer) {
+        this.onOffer({ offerId: message.offerId, files });
+      }
+      return;
+    }
+    if (message.type === 'control') {
+      // Controls for this side's own outgoing transfers are the FileSender's business
+      const { transferId, action } = message;
+      if (!acceptedTransferIds.has(peerScoped(this.connection.peer, transferId))) return;
+      if (action === 'cancel') {
+        this.enqueue(transferId, async () => {
+          await this.discardTransfer(transferId);
+          this.onCancel?.(transferId, true);
+        });
+      } else {
+        if (action === 'resume') this.transfers.get(transferId)?.meter.restart();
+        this.onPausedChange?.(transferId, action === 'pause');
+      }
+      return;
+    }
+    if (message.type !== 'metadata' && message.type !== 'chunk' && message.type !== 'complete') return;
+
+    this.enqueue(message.transferId, () => this.handleMessage(message));
+  };
 
-          // Reset state
-          this.chunks = [];
-          this.metadata = null;
-          this.receivedChunks = 0;
+  // Lanes only carry chunk data; everything else stays on the main connection
+  private handleLaneData = (data: unknown) => {
+    const message = data as FileMessage;
+    if (message?.type !== 'chunk') return;
+    this.enqueue(message.transferId, () => this.handleMessage(message));
+  };
+
+  private enqueue(transferId: string, task: () => Promise<void>) {
+    const queue = (this.queues.get(transferId) ?? Promise.resolve())
+      .then(task)
+      .catch(err => {
+        this.transfers.delete(transferId);
+        this.acceptedTransfers.delete(transferId);
+        acceptedTransferIds.delete(peerScoped(this.connection.peer, transferId));
+        if (err instanceof DecryptionError || err instanceof StorageError) {
+          // Otherwise the sender keeps going, unaware
+          const reason = err instanceof DecryptionError ? 'decryption' : 'storage';
+          const refusal: FileVerified = { type: 'verified', transferId, ok: false, reason };
+          this.connection.send(refusal);
         }
-      } catch (err) {
         if (this.onError) {
-          this.onError(err instanceof Error ? err : new Error('Unknown error'));
+          this.onError(err instanceof Error ? err : new Error('Unknown error'), transferId);
+        }
+      });
+    this.queues.set(transferId, queue);
+    queue.then(() => {
+      if (this.queues.get(transferId) === queue) this.queues.delete(transferId);
+    });
+  }
+
+  private async handleMessage(message: FileMetadata | FileChunk | FileComplete) {
+    const { transferId } = message;
+
+    if (message.type === 'metadata') {
+      // Data nobody agreed to receive is dropped
+      if (!this.acceptedTransfers.has(transferId)) return;
+
+      const { fileKey, fileName, fileType, fileSize, relativePath, encryption, compression } = message;
+      if (this.onStart) {
+        this.onStart({ transferId, fileName, fileType, fileSize, relativePath });
+      }
+
+      if (encryption && !this.passphrase) {
+        throw new DecryptionError(`${fileName} is encrypted. Enter the sender's passphrase to receive it.`);
+      }
+      if (!encryption && this.passphrase) {
+        throw new DecryptionError(`${fileName} was sent without the passphrase, so it was refused.`);
+      }
+      if (compression && !supportedCodecs().includes(compression)) {
+        throw new Error(`${fileName} is compressed with ${compression}, which this browser can't unpack.`);
+      }
+      const cipher = encryption && this.passphrase
+        ? await ChunkCipher.create(this.passphrase, encryption.salt, transferId)
+        : null;
+
+      const key = peerScoped(this.connection.peer, fileKey);
+      const transfer = incomingTransfers.get(key) ?? await this.openTransfer(message, key);
+      transfer.metadata = message;
+      transfer.cipher = cipher;
+      transfer.meter = new TransferMeter(fileSize, Math.min(transfer.receivedChunks * CHUNK_SIZE, fileSize));
+      transfer.compression = new CompressionTally();
+      incomingTransfers.set(key, transfer);
+      this.transfers.set(transferId, transfer);
+      await this.persist(transfer);
+      this.reportProgress(transfer);
+
+      const resume: FileResume = {
+        type: 'resume',
+        transferId,
+        received: transfer.received.slice().buffer
+      };
+      this.connection.send(resume);
+      return;
+    }
+
+    const transfer = this.transfers.get(transferId);
+    if (!transfer) return;
+
+    if (message.type === 'chunk') {
+      const { totalChunks, fileSize } = transfer.metadata;
+      const { index } = message;
+      if (!Number.isInteger(index) || index < 0 || index >= totalChunks) return;
+
+      // A chunk that fails its hash is dropped and re-requested after 'complete'
+      if (!buffersEqual(await sha256(message.data), message.hash)) return;
+
+      // The data arrived intact, so failing to decrypt it means the keys differ
+      let data = message.data;
+      if (transfer.cipher) {
+        if (!message.iv) {
+          throw new DecryptionError(`${transfer.metadata.fileName} was sent without the passphrase, so it was refused.`);
+        }
+        try {
+          data = await transfer.cipher.decrypt(index, message.iv, message.data);
+        } catch {
+          throw new DecryptionError(`Could not decrypt ${transfer.metadata.fileName}. The passphrase doesn't match the sender's.`);
+        }
+      }
+
+      const { compression } = transfer.metadata;
+      if (message.compressed) {
+        if (!compression) return;
+        const sentBytes = data.byteLength;
+        try {
+          data = await decompress(data, compression, Math.min(fileSize - index * CHUNK_SIZE, MAX_MESSAGE_SIZE));
+        } catch {
+          throw new Error(`Could not unpack ${transfer.metadata.fileName}`);
+        }
+        transfer.compression.add(data.byteLength, sentBytes);
+      } else if (compression) {
+        transfer.compression.add(data.byteLength, data.byteLength);
+      }
+
+      // Whole blocks only, except for the one at the end of the file
+      const blocks = Math.ceil(data.byteLength / CHUNK_SIZE);
+      const expectedLength = Math.min(blocks * CHUNK_SIZE, fileSize - index * CHUNK_SIZE);
+      if (blocks === 0 || index + blocks > totalChunks || data.byteLength !== expectedLength) return;
+
+      // Write the blocks not already here, which a re-sent block may have filled in
+      const before = transfer.receivedChunks;
+      let written = 0;
+      const end = index + blocks;
+      let runStart = index;
+      for (let i = index; i <= end; i++) {
+        if (i < end && !hasChunk(transfer.received, i)) continue;
+        if (i > runStart) {
+          const part = i - runStart === blocks
+            ? data
+            : data.slice((runStart - index) * CHUNK_SIZE, (i - index) * CHUNK_SIZE);
+          await transfer.storage.write(runStart * CHUNK_SIZE, part);
+          written += part.byteLength;
+          for (let j = runStart; j < i; j++) setChunk(transfer.received, j);
+          transfer.receivedChunks += i - runStart;
+          transfer.watchers.forEach(watcher => watcher(runStart * CHUNK_SIZE, part));
         }
+        runStart = i + 1;
       }
+      if (transfer.receivedChunks === before) return;
+
+      if (Math.floor(transfer.receivedChunks / PERSIST_EVERY_CHUNKS) > Math.floor(before / PERSIST_EVERY_CHUNKS)) {
+        await this.persist(transfer);
+      }
+      this.reportProgress(transfer, { ...transfer.meter.add(written), compressionRatio: transfer.compression.ratio });
+    } else if (message.type === 'complete') {
+      const { fileName, fileType, fileSize, relativePath, totalChunks } = transfer.metadata;
+
+      const missing: number[] = [];
+      for (let i = 0; i < totalChunks; i++) {
+        if (!hasChunk(transfer.received, i)) missing.push(i);
+      }
+      if (missing.length > 0) {
+        const request: FileRequest = { type: 'request', transferId, indexes: missing };
+        this.connection.send(request);
+        return;
+      }
+
+      this.transfers.delete(transferId);
+      this.acceptedTransfers.delete(transferId);
+      acceptedTransferIds.delete(peerScoped(this.connection.peer, transferId));
+      incomingTransfers.delete(transfer.key);
+      await deletePartialTransfer(transfer.key);
+
+      let file: File | null;
+      try {
+        file = await transfer.storage.finish(message.fileHash);
+      } catch (err) {
+        const verified: FileVerified = { type: 'verified', transferId, ok: false };
+        this.connection.send(verified);
+        if (!(err instanceof IntegrityError)) {
+          await transfer.storage.discard().catch(() => {});
+        }
+        throw err;
+      }
+
+      const verified: FileVerified = { type: 'verified', transferId, ok: true };
+      this.connection.send(verified);
+
+      if (this.onComplete) {
+        this.onComplete({
+          transferId,
+          fileName,
+          fileType,
+          fileSize,
+          relativePath,
+          file,
+          fileHash: message.fileHash,
+          storage: transfer.storage.kind
+        });
+      }
+    }
+  }
+  // Reopens storage left behind by an interrupted attempt, or sets up new storage
+  private async openTransfer(metadata: FileMetadata, key: string): Promise<IncomingTransfer> {
+    const { transferId, fileName, fileType, fileSize, relativePath, totalChunks } = metadata;
+    const target: StorageTarget = { transferId, fileKey: key, fileName, fileType, fileSize, relativePath };
+
+    const partial = await getPartialTransfer(key);
+    if (partial && partial.totalChunks === totalChunks) {
+      const storage = await reopenStorage(partial.storage, target);
+      if (storage) {
+        // Keep only the chunks whose data actually reached disk
+        const received = partial.received;
+        let receivedChunks = 0;
+        for (let i = 0; i < totalChunks; i++) {
+          if (!hasChunk(received, i)) continue;
+          const length = Math.min(CHUNK_SIZE, fileSize - i * CHUNK_SIZE);
+          if (storage.hasRange(i * CHUNK_SIZE, length)) {
+            receivedChunks++;
+          } else {
+            setChunk(received, i, false);
+          }
+        }
+        return {
+          metadata,
+          key,
+          storage,
+          received,
+          receivedChunks,
+          cipher: null,
+          meter: new TransferMeter(fileSize),
+          compression: new CompressionTally(),
+          watchers: new Set()
+        };
+      }
+    }
+    if (partial) {
+      await deletePartialTransfer(key);
+    }
+
+    const storage = await (this.resolveStorage ?? createDefaultStorage)(target);
+    return {
+      metadata,
+      key,
+      storage,
+      received: createChunkBitmap(totalChunks),
+      receivedChunks: 0,
+      cipher: null,
+      meter: new TransferMeter(fileSize),
+      compression: new CompressionTally(),
+      watchers: new Set()
+    };
+  }
+
+  private async persist(transfer: IncomingTransfer) {
+    if (!transfer.storage.resumable) return;
+
+    const { fileName, fileType, fileSize, totalChunks } = transfer.metadata;
+    await savePartialTransfer({
+      fileKey: transfer.key,
+      fileName,
+      fileType,
+      fileSize,
+      totalChunks,
+      storage: transfer.storage.kind,
+      received: transfer.received,
+      updatedAt: Date.now()
     });
   }
+
+  private reportProgress(transfer: IncomingTransfer, stats?: TransferStats) {
+    if (!this.onProgress) return;
+    const { transferId, totalChunks } = transfer.metadata;
+    const progress = totalChunks === 0
+      ? 100
+      : Math.round((transfer.receivedChunks / totalChunks) * 100);
+    this.onProgress(transferId, progress, stats);
+  }
 }
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeRelativePath } from './folders';
+
+describe('sanitizeRelativePath', () => {
+  it('keeps an ordinary path as its parts', () => {
+    expect(sanitizeRelativePath('project/src/main.ts')).toEqual(['project', 'src', 'main.ts']);
+  });
+
+  it('drops parent and current directory parts so nothing escapes the folder', () => {
+    expect(sanitizeRelativePath('../../etc/passwd')).toEqual(['etc', 'passwd']);
+    expect(sanitizeRelativePath('project/../../secret.txt')).toEqual(['project', 'secret.txt']);
+    expect(sanitizeRelativePath('./project/./a.txt')).toEqual(['project', 'a.txt']);
+  });
+
+  it('makes absolute paths relative', () => {
+    expect(sanitizeRelativePath('/etc/passwd')).toEqual(['etc', 'passwd']);
+    expect(sanitizeRelativePath('\\\\server\\share\\a.txt')).toEqual(['server', 'share', 'a.txt']);
+    expect(sanitizeRelativePath('C:\\Windows\\system.ini')).toEqual(['C_', 'Windows', 'system.ini']);
+  });
+
+  it('drops empty and blank parts', () => {
+    expect(sanitizeRelativePath('project//src/ /main.ts/')).toEqual(['project', 'src', 'main.ts']);
+    expect(sanitizeRelativePath('')).toEqual([]);
+    expect(sanitizeRelativePath('/../')).toEqual([]);
+  });
+
+  it('replaces characters that file systems reject', () => {
+    expect(sanitizeRelativePath('notes/what?.txt')).toEqual(['notes', 'what_.txt']);
+    expect(sanitizeRelativePath('a<b>|c*.txt')).toEqual(['a_b__c_.txt']);
+    expect(sanitizeRelativePath('line\nbreak.txt')).toEqual(['line_break.txt']);
+  });
+});
@@ -0,0 +1,119 @@
+// Folder input on the sending side and folder output on the receiving side.
+// Files inside a folder travel one by one, each carrying its path relative
+// to the folder that was picked, e.g. "project/src/main.ts".
+
+export interface FileWithPath {
+  file: File;
+  relativePath?: string;
+}
+
+function readAllEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => {
+    const entries: FileSystemEntry[] = [];
+    // readEntries hands back entries in batches and an empty batch at the end
+    const readBatch = () => {
+      reader.readEntries(batch => {
+        if (batch.length === 0) {
+          resolve(entries);
+        } else {
+          entries.push(...batch);
+          readBatch();
+        }
+      }, reject);
+    };
+    readBatch();
+  });
+}
+
+function entryToFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+async function walkEntry(entry: FileSystemEntry, path: string, out: FileWithPath[]) {
+  if (entry.isFile) {
+    const file = await entryToFile(entry as FileSystemFileEntry);
+    out.push({ file, relativePath: path });
+  } else if (entry.isDirectory) {
+    const children = await readAllEntries((entry as FileSystemDirectoryEntry).createReader());
+    for (const child of children) {
+      await walkEntry(child, `${path}/${child.name}`, out);
+    }
+  }
+}
+
+// Expands dropped folders into their files. Loose files keep no path.
+// Empty folders have nothing to send and are skipped.
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<FileWithPath[]> {
+  const items = Array.from(dataTransfer.items).filter(item => item.kind === 'file');
+  // Entries have to be taken before the first await, while the drop event is still live
+  const entries = items.map(item => item.webkitGetAsEntry?.() ?? null);
+
+  if (!entries.some(entry => entry?.isDirectory)) {
+    return Array.from(dataTransfer.files).map(file => ({ file }));
+  }
+
+  const out: FileWithPath[] = [];
+  for (let i = 0; i < items.length; i++) {
+    const entry = entries[i];
+    if (entry?.isDirectory) {
+      await walkEntry(entry, entry.name, out);
+    } else {
+      const file = items[i].getAsFile();
+      if (file) out.push({ file });
+    }
+  }
+  return out;
+}
+
+// Files from an <input webkitdirectory> already know their path
+export function filesFromFolderInput(files: FileList): FileWithPath[] {
+  return Array.from(files).map(file => ({
+    file,
+    relativePath: file.webkitRelativePath || undefined
+  }));
+}
+
+// Paths come from the other peer, so nothing may climb out of the target folder
+export function sanitizeRelativePath(path: string): string[] {
+  return path
+    .split(/[/\\]/)
+    .map(part => part.trim())
+    .filter(part => part !== '' && part !== '.' && part !== '..')
+    .map(part => part.replace(/[<>:"|?*\u0000-\u001f]/g, '_'));
+}
+
+type DirectoryPickerWindow = Window & {
+  showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+};
+
+export function canPickDirectory(): boolean {
+  return typeof window !== 'undefined' && typeof (window as DirectoryPickerWindow).showDirectoryPicker === 'function';
+}
+
+// Must be called from a user gesture. Resolves with null if the user cancels.
+export async function pickDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  const picker = (window as DirectoryPickerWindow).showDirectoryPicker;
+  if (!picker) return null;
+
+  try {
+    return await picker({ mode: 'readwrite' });
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') return null;
+    throw err;
+  }
+}
+
+// Creates any missing folders along the way and returns a handle for the file itself
+export async function createFileInDirectory(root: FileSystemDirectoryHandle, relativePath: string): Promise<FileSystemFileHandle> {
+  const parts = sanitizeRelativePath(relativePath);
+  const fileName = parts.pop();
+  if (!fileName) {
+    throw new Error(`Invalid path: ${relativePath}`);
+  }
+
+  let dir = root;
+  for (const part of parts) {
+    dir = await dir.getDirectoryHandle(part, { create: true });
+  }
+  return dir.getFileHandle(fileName, { create: true });
+}
@@ -0,0 +1,57 @@
+// Every sent and received transfer, kept in IndexedDB so the history survives reloads
+
+import { HISTORY_STORE, openDatabase, requestToPromise, transactionDone } from './transferStore';
+
+export type TransferOutcome = 'complete' | 'failed' | 'declined' | 'cancelled';
+
+export interface HistoryRecord {
+  id: string; // transferId
+  direction: 'sent' | 'received';
+  peerId: string;
+  fileName: string; // path within the folder for files sent as part of one
+  fileType: string;
+  fileSize: number;
+  fileHash: string | null;
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+  averageSpeed: number; // bytes per second
+  outcome: TransferOutcome;
+  // A copy of a received file, when the user chose to keep them
+  file?: Blob;
+}
+
+export function createHistoryRecord(
+  fields: Omit<HistoryRecord, 'finishedAt' | 'durationMs' | 'averageSpeed'>
+): HistoryRecord {
+  const finishedAt = Date.now();
+  const durationMs = Math.max(0, finishedAt - fields.startedAt);
+  return {
+    ...fields,
+    finishedAt,
+    durationMs,
+    averageSpeed: fields.outcome === 'complete' && durationMs > 0 ? fields.fileSize / (durationMs / 1000) : 0
+  };
+}
+
+export async function addHistoryRecord(record: HistoryRecord): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  tx.objectStore(HISTORY_STORE).put(record);
+  await transactionDone(tx);
+}
+
+// Newest first
+export async function listHistory(): Promise<HistoryRecord[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(HISTORY_STORE, 'readonly');
+  const records = await requestToPromise(tx.objectStore(HISTORY_STORE).getAll()) as HistoryRecord[];
+  return records.sort((a, b) => b.finishedAt - a.finishedAt);
+}
+
+export async function clearHistory(): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  tx.objectStore(HISTORY_STORE).clear();
+  await transactionDone(tx);
+}
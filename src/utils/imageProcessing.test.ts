@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { ImageProcessingOptions, processImage } from './imageProcessing';
+
+const STRIP: ImageProcessingOptions = { stripMetadata: true, maxDimension: null, quality: null };
+
+function bytesOf(...parts: (number[] | Uint8Array | string)[]): Uint8Array<ArrayBuffer> {
+  const arrays = parts.map(part => typeof part === 'string'
+    ? new TextEncoder().encode(part)
+    : Uint8Array.from(part));
+  const out = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0));
+  let offset = 0;
+  for (const a of arrays) {
+    out.set(a, offset);
+    offset += a.length;
+  }
+  return out;
+}
+
+async function strip(bytes: Uint8Array<ArrayBuffer>, type: string) {
+  const { file, metadataKept } = await processImage(new File([bytes], 'photo', { type }), STRIP);
+  return { bytes: new Uint8Array(await file.arrayBuffer()), metadataKept };
+}
+
+// --- JPEG -------------------------------------------------------------------
+
+function segment(marker: number, data: Uint8Array): Uint8Array {
+  const length = data.length + 2;
+  return bytesOf([0xff, marker, length >> 8, length & 0xff], data);
+}
+
+// A big-endian EXIF block with an orientation tag and a GPS IFD pointer
+function exif(orientation: number): Uint8Array {
+  return bytesOf(
+    'Exif\0\0',
+    [0x4d, 0x4d, 0, 42, 0, 0, 0, 8],
+    [0, 2],
+    [0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, orientation, 0, 0],
+    [0x88, 0x25, 0, 4, 0, 0, 0, 1, 0, 0, 0, 0x26],
+    [0, 0, 0, 0]
+  );
+}
+
+const SOI = [0xff, 0xd8];
+const EOI = [0xff, 0xd9];
+const APP0 = segment(0xe0, bytesOf('JFIF\0', [1, 1, 0, 0, 1, 0, 1, 0, 0]));
+const XMP = segment(0xe1, bytesOf('http://ns.adobe.com/xap/1.0/\0<x:xmpmeta>GPS</x:xmpmeta>'));
+const COMMENT = segment(0xfe, bytesOf('taken at home'));
+const DQT = segment(0xdb, bytesOf([0], new Array(64).fill(1)));
+const SOS = segment(0xda, bytesOf([1, 1, 0, 0, 0x3f, 0]));
+// Entropy-coded data with a stuffed 0xFF00 and a restart marker, neither of which ends the scan
+const SCAN = bytesOf([0x12, 0xff, 0x00, 0x34, 0xff, 0xd0, 0x56, 0x78]);
+
+function jpeg(orientation = 1): Uint8Array<ArrayBuffer> {
+  return bytesOf(SOI, APP0, segment(0xe1, exif(orientation)), XMP, COMMENT, DQT, SOS, SCAN, EOI, 'trailing maker data');
+}
+
+describe('JPEG metadata stripping', () => {
+  it('drops EXIF, XMP and comments and keeps the image data byte for byte', async () => {
+    const { bytes, metadataKept } = await strip(jpeg(), 'image/jpeg');
+    expect(metadataKept).toBe(false);
+    expect(bytes).toEqual(bytesOf(SOI, APP0, DQT, SOS, SCAN, EOI));
+  });
+
+  it('keeps a non-default orientation in an APP1 of its own after JFIF', async () => {
+    const { bytes } = await strip(jpeg(6), 'image/jpeg');
+    const orientationSegment = bytes.subarray(2 + APP0.length, 2 + APP0.length + 36);
+    expect(Array.from(orientationSegment.subarray(0, 2))).toEqual([0xff, 0xe1]);
+    expect(new TextDecoder().decode(orientationSegment.subarray(4, 10))).toBe('Exif\0\0');
+    expect(orientationSegment[29]).toBe(6);
+    // No GPS pointer survives
+    expect(orientationSegment.includes(0x88)).toBe(false);
+    expect(bytes.subarray(2 + APP0.length + 36)).toEqual(bytesOf(DQT, SOS, SCAN, EOI));
+  });
+
+  it('leaves a truncated file alone and reports the metadata as kept', async () => {
+    const original = jpeg();
+    // Cut inside the EXIF segment
+    const truncated = original.subarray(0, 2 + APP0.length + 10);
+    const { bytes, metadataKept } = await strip(truncated, 'image/jpeg');
+    expect(metadataKept).toBe(true);
+    expect(bytes).toEqual(truncated);
+  });
+
+  it('leaves a file without a JPEG header alone', async () => {
+    const notJpeg = bytesOf('not a jpeg at all');
+    const { bytes, metadataKept } = await strip(notJpeg, 'image/jpeg');
+    expect(metadataKept).toBe(true);
+    expect(bytes).toEqual(notJpeg);
+  });
+});
+
+// --- PNG --------------------------------------------------------------------
+
+// CRCs are copied as they are, so any four bytes do here
+function chunk(type: string, data: Uint8Array | string): Uint8Array {
+  const body = typeof data === 'string' ? bytesOf(data) : data;
+  const length = body.length;
+  return bytesOf([length >>> 24, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff], type, body, [1, 2, 3, 4]);
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const IHDR = chunk('IHDR', bytesOf([0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0]));
+const IDAT = chunk('IDAT', bytesOf([0x78, 0x9c, 0x63, 0x60, 0, 0, 0, 2, 0, 1]));
+const IEND = chunk('IEND', new Uint8Array(0));
+
+function png(): Uint8Array<ArrayBuffer> {
+  return bytesOf(
+    PNG_SIGNATURE,
+    IHDR,
+    chunk('tEXt', 'Author\0someone'),
+    chunk('eXIf', exif(1)),
+    chunk('iTXt', 'XML:com.adobe.xmp\0\0\0\0\0<x:xmpmeta/>'),
+    chunk('zTXt', 'Comment\0\0x'),
+    chunk('tIME', bytesOf([7, 0xea, 10, 19, 12, 0, 0])),
+    IDAT,
+    IEND
+  );
+}
+
+describe('PNG metadata stripping', () => {
+  it('drops text, eXIf and tIME chunks and keeps the image chunks byte for byte', async () => {
+    const { bytes, metadataKept } = await strip(png(), 'image/png');
+    expect(metadataKept).toBe(false);
+    expect(bytes).toEqual(bytesOf(PNG_SIGNATURE, IHDR, IDAT, IEND));
+  });
+
+  it('leaves a file whose chunk runs past the end alone', async () => {
+    const original = png();
+    const truncated = original.subarray(0, original.length - IEND.length - 4);
+    const { bytes, metadataKept } = await strip(truncated, 'image/png');
+    expect(metadataKept).toBe(true);
+    expect(bytes).toEqual(truncated);
+  });
+});
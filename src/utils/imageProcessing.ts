@@ -0,0 +1,300 @@
+// Optional clean-up of photos before they're sent. Phones put GPS coordinates,
+// camera details and capture times in EXIF and XMP metadata, which whoever
+// receives the file can read.
+//
+// JPEG, PNG and WebP files have those segments cut out of the file as it is,
+// without decoding the image, so quality and size stay as they were. Other
+// formats (HEIC, AVIF) and resizing go through a canvas, whose output carries
+// no metadata at all.
+
+const STORAGE_KEY = 'imageProcessing';
+
+export interface ImageProcessingOptions {
+  stripMetadata: boolean;
+  // Longest side in pixels; larger images are scaled down
+  maxDimension: number | null;
+  // 0 to 1, for JPEG and WebP; null keeps the original encoding where nothing else needs a re-encode
+  quality: number | null;
+}
+
+export const DEFAULT_IMAGE_PROCESSING: ImageProcessingOptions = { stripMetadata: false, maxDimension: null, quality: null };
+
+export interface ProcessedImage {
+  file: File;
+  // Stripping was asked for but the browser couldn't read or rewrite the format
+  metadataKept: boolean;
+}
+
+// Quality used when an image has to be re-encoded and no quality was picked
+const DEFAULT_QUALITY = 0.92;
+
+export function loadImageProcessingOptions(): ImageProcessingOptions {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return {
+      stripMetadata: stored?.stripMetadata === true,
+      maxDimension: typeof stored?.maxDimension === 'number' && stored.maxDimension > 0 ? stored.maxDimension : null,
+      quality: typeof stored?.quality === 'number' && stored.quality > 0 && stored.quality <= 1 ? stored.quality : null
+    };
+  } catch {
+    return DEFAULT_IMAGE_PROCESSING;
+  }
+}
+
+export function saveImageProcessingOptions(options: ImageProcessingOptions) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+}
+
+export function isImageProcessingOn(options: ImageProcessingOptions): boolean {
+  return options.stripMetadata || options.maxDimension !== null || options.quality !== null;
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// --- JPEG -------------------------------------------------------------------
+
+// The EXIF orientation tag, so a sideways-stored photo can stay upright without the rest of EXIF
+function readExifOrientation(data: Uint8Array): number | null {
+  if (data.length < 14 || ascii(data, 0, 6) !== 'Exif\0\0') return null;
+  try {
+    const view = new DataView(data.buffer, data.byteOffset + 6, data.length - 6);
+    const little = view.getUint16(0) === 0x4949;
+    const ifd = view.getUint32(4, little);
+    const count = view.getUint16(ifd, little);
+    for (let i = 0; i < count; i++) {
+      const entry = ifd + 2 + i * 12;
+      if (view.getUint16(entry, little) === 0x0112) {
+        const orientation = view.getUint16(entry + 8, little);
+        return orientation >= 1 && orientation <= 8 ? orientation : null;
+      }
+    }
+  } catch {
+    // Truncated or malformed; treated as having no orientation
+  }
+  return null;
+}
+
+// An APP1 segment holding nothing but the orientation tag
+function createOrientationSegment(orientation: number): Uint8Array {
+  const segment = new Uint8Array(36);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, segment.length - 2);
+  segment.set([0x45, 0x78, 0x69, 0x66, 0, 0], 4); // "Exif\0\0"
+  view.setUint16(10, 0x4d4d); // big-endian TIFF
+  view.setUint16(12, 42);
+  view.setUint32(14, 8); // first IFD right after the header
+  view.setUint16(18, 1); // one entry
+  view.setUint16(20, 0x0112);
+  view.setUint16(22, 3); // SHORT
+  view.setUint32(24, 1);
+  view.setUint16(28, orientation);
+  return segment;
+}
+
+function keepJpegSegment(marker: number, data: Uint8Array): boolean {
+  if (marker === 0xe0 || marker === 0xee) return true; // JFIF, Adobe colour transform
+  if (marker === 0xe2) return ascii(data, 0, 12) === 'ICC_PROFILE\0';
+  // Other APPn hold EXIF, XMP, IPTC, maker notes and the like; 0xFE is a comment
+  return !(marker >= 0xe1 && marker <= 0xef) && marker !== 0xfe;
+}
+
+// Null when the file doesn't parse as a JPEG
+function stripJpeg(bytes: Uint8Array): Uint8Array<ArrayBuffer> | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let orientation: number | null = null;
+  let offset = 2;
+
+  for (;;) {
+    if (offset + 2 > bytes.length || bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Anything after the end of the image goes too: phones put extra images and maker data there
+    if (marker === 0xd9) {
+      kept.push(bytes.subarray(offset, offset + 2));
+      break;
+    }
+
+    if (offset + 4 > bytes.length) return null;
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (end > bytes.length) return null;
+    const data = bytes.subarray(offset + 4, end);
+    if (marker === 0xe1 && orientation === null) orientation = readExifOrientation(data);
+    if (keepJpegSegment(marker, data)) kept.push(bytes.subarray(offset, end));
+    offset = end;
+
+    if (marker === 0xda) {
+      // Compressed data runs up to the next marker that isn't a stuffed 0xFF00 or a restart
+      let scanEnd = offset;
+      while (scanEnd + 1 < bytes.length) {
+        const next = bytes[scanEnd + 1];
+        if (bytes[scanEnd] === 0xff && next !== 0 && (next < 0xd0 || next > 0xd7)) break;
+        scanEnd++;
+      }
+      if (scanEnd + 1 >= bytes.length) {
+        // Cut off before the end marker; keep what's there
+        kept.push(bytes.subarray(offset));
+        break;
+      }
+      kept.push(bytes.subarray(offset, scanEnd));
+      offset = scanEnd;
+    }
+  }
+
+  if (orientation !== null && orientation !== 1) {
+    // After JFIF's APP0 if there is one, as readers expect
+    const at = kept.length > 1 && kept[1][1] === 0xe0 ? 2 : 1;
+    kept.splice(at, 0, createOrientationSegment(orientation));
+  }
+  return concat(kept);
+}
+
+// --- PNG --------------------------------------------------------------------
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const PNG_METADATA_CHUNKS = new Set(['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME']);
+
+function stripPng(bytes: Uint8Array): Uint8Array<ArrayBuffer> | null {
+  if (!PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const kept: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+
+  while (offset + 12 <= bytes.length) {
+    const type = ascii(bytes, offset + 4, offset + 8);
+    // Length, type, data, CRC; chunks are copied whole, so their CRCs still hold
+    const end = offset + 12 + view.getUint32(offset);
+    if (end > bytes.length) return null;
+    if (!PNG_METADATA_CHUNKS.has(type)) kept.push(bytes.subarray(offset, end));
+    offset = end;
+    if (type === 'IEND') break;
+  }
+  return concat(kept);
+}
+
+// --- WebP -------------------------------------------------------------------
+
+const VP8X_EXIF_FLAG = 0x08;
+const VP8X_XMP_FLAG = 0x04;
+
+function stripWebp(bytes: Uint8Array): Uint8Array<ArrayBuffer> | null {
+  if (bytes.length < 12 || ascii(bytes, 0, 4) !== 'RIFF' || ascii(bytes, 8, 12) !== 'WEBP') return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const kept: Uint8Array[] = [bytes.slice(0, 12)];
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset, offset + 4);
+    const size = view.getUint32(offset + 4, true);
+    // Chunks are padded to an even length
+    const end = Math.min(offset + 8 + size + (size & 1), bytes.length);
+    if (offset + 8 + size > bytes.length) return null;
+    if (type === 'VP8X') {
+      // Its flags say which optional chunks follow
+      const chunk = bytes.slice(offset, end);
+      chunk[8] &= ~(VP8X_EXIF_FLAG | VP8X_XMP_FLAG);
+      kept.push(chunk);
+    } else if (type !== 'EXIF' && type !== 'XMP ') {
+      kept.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  const out = concat(kept);
+  new DataView(out.buffer).setUint32(4, out.length - 8, true);
+  return out;
+}
+
+// --- Re-encoding --------------------------------------------------------------
+
+const REWRITERS: Record<string, (bytes: Uint8Array) => Uint8Array<ArrayBuffer> | null> = {
+  'image/jpeg': stripJpeg,
+  'image/png': stripPng,
+  'image/webp': stripWebp
+};
+
+function renamed(name: string, type: string): string {
+  const extension = type === 'image/png' ? 'png' : type === 'image/webp' ? 'webp' : 'jpg';
+  const dot = name.lastIndexOf('.');
+  return `${dot > 0 ? name.slice(0, dot) : name}.${extension}`;
+}
+
+// Null when the browser can't decode the image, or there's nothing to do
+async function reencode(
+  file: File,
+  maxDimension: number | null,
+  quality: number | null,
+  force: boolean
+): Promise<{ file: File; resized: boolean } | null> {
+  if (typeof createImageBitmap !== 'function' || typeof OffscreenCanvas === 'undefined') return null;
+  let bitmap: ImageBitmap;
+  try {
+    // Applies EXIF orientation to the pixels, since the output has no EXIF to carry it
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    return null;
+  }
+
+  const scale = maxDimension ? Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height)) : 1;
+  if (scale === 1 && quality === null && !force) {
+    bitmap.close();
+    return null;
+  }
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = new OffscreenCanvas(width, height);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  // PNG and WebP keep their format; anything else becomes a JPEG
+  const type = file.type === 'image/png' || file.type === 'image/webp' ? file.type : 'image/jpeg';
+  const blob = await canvas.convertToBlob({ type, quality: quality ?? DEFAULT_QUALITY });
+  const name = type === file.type ? file.name : renamed(file.name, type);
+  return { file: new File([blob], name, { type, lastModified: file.lastModified }), resized: scale < 1 };
+}
+
+// Returns the file as it should be sent; other files come back untouched
+export async function processImage(file: File, options: ImageProcessingOptions): Promise<ProcessedImage> {
+  if (!file.type.startsWith('image/') || file.type === 'image/svg+xml' || !isImageProcessingOn(options)) {
+    return { file, metadataKept: false };
+  }
+
+  let result = file;
+  let metadataKept = options.stripMetadata;
+  const rewrite = REWRITERS[file.type];
+  if (options.stripMetadata && rewrite) {
+    const stripped = rewrite(new Uint8Array(await file.arrayBuffer()));
+    if (stripped) {
+      result = new File([stripped], file.name, { type: file.type, lastModified: file.lastModified });
+      metadataKept = false;
+    }
+  }
+
+  // A format that can't be rewritten in place is re-encoded even when nothing else asks for it
+  if (options.maxDimension !== null || options.quality !== null || metadataKept) {
+    const reencoded = await reencode(result, options.maxDimension, options.quality, metadataKept);
+    // Re-encoding only for quality isn't worth a bigger file
+    if (reencoded && (metadataKept || reencoded.resized || reencoded.file.size < result.size)) {
+      result = reencoded.file;
+      metadataKept = false;
+    }
+  }
+
+  return { file: result, metadataKept };
+}
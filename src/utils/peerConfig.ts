@@ -0,0 +1,281 @@
+// Which signaling server and ICE servers to use. With nothing set, PeerJS uses
+// its public cloud server and Google's STUN server.
+//
+// Settings are layered, later ones winning field by field:
+//   1. zapdrop.config.json next to index.html, for whoever deploys ZapDrop
+//   2. what the user saved in the settings panel
+//   3. URL parameters: ?host=&port=&path=&peerKey=&secure=&ice=&relay=
+// where `ice` holds the iceServers list as JSON and `peerKey` is the PeerJS API
+// key (not to be confused with the passphrase in a share link's #key fragment).
+
+import type { PeerJSOption } from 'peerjs';
+
+export interface ConnectionSettings {
+  host?: string;
+  port?: number;
+  path?: string;
+  key?: string;
+  secure?: boolean;
+  iceServers?: RTCIceServer[];
+  // Connections to open to each dialed peer, chunks being striped across all of them
+  parallelConnections?: number;
+  // WebSocket relay (relay/server.js) to fall back to when no direct connection can be made
+  relayUrl?: string;
+}
+
+export const MAX_PARALLEL_CONNECTIONS = 4;
+
+export interface LoadedSettings {
+  settings: ConnectionSettings;
+  // Problems found while loading; anything invalid is left out
+  errors: string[];
+  // Saved settings the page's link replaced with its own, by label
+  overriddenByLink: string[];
+}
+
+const STORAGE_KEY = 'connectionSettings';
+const CONFIG_FILE = 'zapdrop.config.json';
+const URL_PARAMS = ['host', 'port', 'path', 'peerKey', 'secure', 'ice', 'relay'];
+
+const SETTING_LABELS: Record<keyof ConnectionSettings, string> = {
+  host: 'host',
+  port: 'port',
+  path: 'path',
+  key: 'API key',
+  secure: 'secure',
+  iceServers: 'ICE servers',
+  parallelConnections: 'parallel connections',
+  relayUrl: 'relay'
+};
+
+const HOST_PATTERN = /^(?=.{1,253}$)[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$|^\[[0-9a-f:.]+\]$/i;
+const ICE_URL_PATTERN = /^(stun|stuns|turn|turns):[^\s]+$/;
+
+function validateIceServers(value: unknown, source: string, errors: string[]): RTCIceServer[] | undefined {
+  if (!Array.isArray(value)) {
+    errors.push(`${source}: iceServers must be a list`);
+    return undefined;
+  }
+
+  const servers: RTCIceServer[] = [];
+  value.forEach((server, i) => {
+    const urls = typeof server?.urls === 'string' ? [server.urls] : server?.urls;
+    if (!Array.isArray(urls) || urls.length === 0 || !urls.every(url => typeof url === 'string' && ICE_URL_PATTERN.test(url))) {
+      errors.push(`${source}: ICE server ${i + 1} needs stun:, turn: or turns: URLs`);
+      return;
+    }
+    const isTurn = urls.some((url: string) => url.startsWith('turn'));
+    if (isTurn && (typeof server.username !== 'string' || typeof server.credential !== 'string')) {
+      errors.push(`${source}: TURN server ${i + 1} needs a username and credential`);
+      return;
+    }
+    servers.push({
+      urls,
+      ...(typeof server.username === 'string' && { username: server.username }),
+      ...(typeof server.credential === 'string' && { credential: server.credential })
+    });
+  });
+  return servers;
+}
+
+function isRelayUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'ws:' || url.protocol === 'wss:';
+  } catch {
+    return false;
+  }
+}
+
+// Keeps the fields that are valid and reports the rest
+export function validateSettings(raw: unknown, source: string): Omit<LoadedSettings, 'overriddenByLink'> {
+  const errors: string[] = [];
+  const settings: ConnectionSettings = {};
+  if (raw === null || typeof raw !== 'object') {
+    return { settings, errors: [`${source}: not a settings object`] };
+  }
+  const input = raw as Record<string, unknown>;
+
+  if (input.host !== undefined && input.host !== '') {
+    if (typeof input.host === 'string' && HOST_PATTERN.test(input.host)) {
+      settings.host = input.host;
+    } else {
+      errors.push(`${source}: "${String(input.host)}" is not a valid host name`);
+    }
+  }
+  if (input.port !== undefined && input.port !== '') {
+    const port = Number(input.port);
+    if (Number.isInteger(port) && port >= 1 && port <= 65535) {
+      settings.port = port;
+    } else {
+      errors.push(`${source}: port must be a number from 1 to 65535`);
+    }
+  }
+  if (input.path !== undefined && input.path !== '') {
+    if (typeof input.path === 'string' && input.path.startsWith('/')) {
+      settings.path = input.path;
+    } else {
+      errors.push(`${source}: path must start with /`);
+    }
+  }
+  if (input.key !== undefined && input.key !== '') {
+    if (typeof input.key === 'string') {
+      settings.key = input.key;
+    } else {
+      errors.push(`${source}: key must be text`);
+    }
+  }
+  if (input.secure !== undefined) {
+    if (typeof input.secure === 'boolean') {
+      settings.secure = input.secure;
+    } else {
+      errors.push(`${source}: secure must be true or false`);
+    }
+  }
+  if (input.iceServers !== undefined) {
+    const iceServers = validateIceServers(input.iceServers, source, errors);
+    if (iceServers && iceServers.length > 0) settings.iceServers = iceServers;
+  }
+  if (input.parallelConnections !== undefined && input.parallelConnections !== '') {
+    const count = Number(input.parallelConnections);
+    if (Number.isInteger(count) && count >= 1 && count <= MAX_PARALLEL_CONNECTIONS) {
+      settings.parallelConnections = count;
+    } else {
+      errors.push(`${source}: parallelConnections must be a number from 1 to ${MAX_PARALLEL_CONNECTIONS}`);
+    }
+  }
+
+  if (input.relayUrl !== undefined && input.relayUrl !== '') {
+    if (typeof input.relayUrl === 'string' && isRelayUrl(input.relayUrl)) {
+      settings.relayUrl = input.relayUrl;
+    } else {
+      errors.push(`${source}: relayUrl must be a ws:// or wss:// URL`);
+    }
+  }
+
+  return { settings, errors };
+}
+
+async function loadConfigFile(): Promise<unknown> {
+  try {
+    const response = await fetch(CONFIG_FILE, { cache: 'no-cache' });
+    if (!response.ok) return null;
+    return await response.json();
+  } catch {
+    return null;
+  }
+}
+
+function readUrlSettings(): Record<string, unknown> | null {
+  const params = new URLSearchParams(window.location.search);
+  if (!URL_PARAMS.some(name => params.has(name))) return null;
+
+  const raw: Record<string, unknown> = {};
+  for (const name of ['host', 'port', 'path']) {
+    if (params.has(name)) raw[name] = params.get(name);
+  }
+  if (params.has('peerKey')) raw.key = params.get('peerKey');
+  if (params.has('relay')) raw.relayUrl = params.get('relay');
+  if (params.has('secure')) {
+    const secure = params.get('secure');
+    raw.secure = secure === 'true' ? true : secure === 'false' ? false : secure;
+  }
+  if (params.has('ice')) {
+    try {
+      raw.iceServers = JSON.parse(params.get('ice')!);
+    } catch {
+      raw.iceServers = 'invalid JSON';
+    }
+  }
+  return raw;
+}
+
+export function readSavedSettings(): Omit<LoadedSettings, 'overriddenByLink'> {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return { settings: {}, errors: [] };
+  try {
+    return validateSettings(JSON.parse(stored), 'Saved settings');
+  } catch {
+    return { settings: {}, errors: ['Saved settings: not valid JSON'] };
+  }
+}
+
+export function saveSettings(settings: ConnectionSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function clearSavedSettings() {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+export async function loadSettings(): Promise<LoadedSettings> {
+  const layers: Omit<LoadedSettings, 'overriddenByLink'>[] = [];
+
+  const fileConfig = await loadConfigFile();
+  if (fileConfig !== null) layers.push(validateSettings(fileConfig, CONFIG_FILE));
+
+  const saved = readSavedSettings();
+  layers.push(saved);
+
+  const urlSettings = readUrlSettings();
+  const link = urlSettings ? validateSettings(urlSettings, 'Link') : null;
+  if (link) layers.push(link);
+
+  // Whoever made the link picked these, so the user should know theirs aren't in use
+  const overriddenByLink = link
+    ? (Object.keys(link.settings) as (keyof ConnectionSettings)[])
+        .filter(name => saved.settings[name] !== undefined &&
+          JSON.stringify(saved.settings[name]) !== JSON.stringify(link.settings[name]))
+        .map(name => SETTING_LABELS[name])
+    : [];
+
+  return {
+    settings: Object.assign({}, ...layers.map(layer => layer.settings)),
+    errors: layers.flatMap(layer => layer.errors),
+    overriddenByLink
+  };
+}
+
+export function toPeerOptions(settings: ConnectionSettings): PeerJSOption {
+  const { iceServers, parallelConnections, relayUrl, ...server } = settings;
+  return iceServers ? { ...server, config: { iceServers } } : server;
+}
+
+// Signaling parameters for share links, so the other device finds the same server.
+// TURN credentials stay out of links.
+export function toUrlParams(settings: ConnectionSettings): URLSearchParams {
+  const params = new URLSearchParams();
+  if (settings.host) params.set('host', settings.host);
+  if (settings.port) params.set('port', String(settings.port));
+  if (settings.path) params.set('path', settings.path);
+  if (settings.key) params.set('peerKey', settings.key);
+  if (settings.secure !== undefined) params.set('secure', String(settings.secure));
+  if (settings.relayUrl) params.set('relay', settings.relayUrl);
+  return params;
+}
+
+// One server per line: "<url>[,<url>…] [username credential]"
+export function parseIceServerLines(text: string): RTCIceServer[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => {
+      const [urls, username, credential] = line.split(/\s+/);
+      return {
+        urls: urls.split(','),
+        ...(username !== undefined && { username }),
+        ...(credential !== undefined && { credential })
+      };
+    });
+}
+
+export function formatIceServerLines(servers: RTCIceServer[] = []): string {
+  return servers
+    .map(server => [
+      Array.isArray(server.urls) ? server.urls.join(',') : server.urls,
+      server.username,
+      typeof server.credential === 'string' ? server.credential : undefined
+    ].filter(Boolean).join(' '))
+    .join('\n');
+}
@@ -0,0 +1,327 @@
+// Plays a video or audio file while it's still being received. Containers built
+// to be streamed (WebM, fragmented MP4) are fed to a MediaSource in order as the
+// data arrives. Anything else, like an MP4 with its index at the front, is served
+// by public/sw.js to the player's range requests, each one waiting for its bytes.
+
+import type { ReceivingFile } from './fileTransfer';
+
+export type PlaybackMode = 'media-source' | 'range-stream';
+
+type Container = 'webm' | 'fragmented-mp4' | 'other';
+
+// How much is read back from storage at a time
+const READ_SIZE = 1024 * 1024;
+// Data that arrives while the player isn't reading is held up to this much;
+// past it, it's read back from storage when the player gets there
+const MAX_PENDING_BYTES = 32 * 1024 * 1024;
+// Where a container's header has to turn up for it to be told apart
+const SNIFF_LIMIT = 4 * 1024 * 1024;
+// When the MediaSource is full, what's been played this long ago is let go
+const KEEP_BEHIND_SECONDS = 30;
+
+const MEDIA_EXTENSIONS = ['mp4', 'm4v', 'm4a', 'mov', 'webm', 'mkv', 'mp3', 'ogg', 'oga', 'wav', 'flac'];
+
+export function canWatchWhileReceiving(fileType: string, fileName: string): boolean {
+  if (fileType.startsWith('video/') || fileType.startsWith('audio/')) return true;
+  return MEDIA_EXTENSIONS.includes(fileName.slice(fileName.lastIndexOf('.') + 1).toLowerCase());
+}
+
+// Reads a file that is still arriving, in order from a given offset: what's
+// already stored is read back, and what comes later is taken as it's written.
+class InOrderReader {
+  private next: number;
+  private pending = new Map<number, ArrayBuffer>();
+  private pendingBytes = 0;
+  private wake: (() => void) | null = null;
+  private closed = false;
+  private stopWatching: () => void;
+
+  constructor(private source: ReceivingFile, from: number) {
+    this.next = from;
+    this.stopWatching = source.onWrite((offset, data) => {
+      // Data past the limit is still woken for: it may be what fills a gap,
+      // in which case read() finds it in storage instead
+      if (offset + data.byteLength > this.next && this.pendingBytes + data.byteLength <= MAX_PENDING_BYTES) {
+        this.pending.set(offset, data);
+        this.pendingBytes += data.byteLength;
+      }
+      this.wake?.();
+    });
+  }
+
+  // Resolves with up to max bytes once they've arrived, or null at the end of the file or once closed.
+  // The buffer is always a copy, so it can be transferred.
+  async read(max: number): Promise<ArrayBuffer | null> {
+    while (!this.closed && this.next < this.source.fileSize) {
+      const held = this.takePending(max);
+      if (held) return held;
+
+      const available = this.source.availableFrom(this.next, Math.min(max, READ_SIZE));
+      if (available > 0) {
+        const blob = await this.source.read(this.next, available);
+        if (this.closed) return null;
+        this.next += available;
+        return blob.arrayBuffer();
+      }
+
+      await new Promise<void>(resolve => {
+        this.wake = resolve;
+      });
+      this.wake = null;
+    }
+    return null;
+  }
+
+  close() {
+    this.closed = true;
+    this.stopWatching();
+    this.pending.clear();
+    this.wake?.();
+  }
+
+  private takePending(max: number): ArrayBuffer | null {
+    for (const [offset, data] of this.pending) {
+      const end = offset + data.byteLength;
+      if (end <= this.next) {
+        this.pending.delete(offset);
+        this.pendingBytes -= data.byteLength;
+        continue;
+      }
+      if (offset > this.next) continue;
+
+      const start = this.next - offset;
+      const length = Math.min(end - this.next, max);
+      if (start + length === data.byteLength) {
+        this.pending.delete(offset);
+        this.pendingBytes -= data.byteLength;
+      }
+      this.next += length;
+      return data.slice(start, start + length);
+    }
+    return null;
+  }
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+// Walks MP4 boxes from start to end, with each box's type and where its contents are
+function* boxes(bytes: Uint8Array, start: number, end: number) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > end) return;
+      size = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+      header = 16;
+    }
+    // Size 0 runs to the end of the file
+    if (size === 0) size = Infinity;
+    if (size < header) return;
+    yield { type: ascii(bytes, offset + 4, 4), offset, header, size };
+    offset += size;
+  }
+}
+
+// Null while more of the file is needed to tell
+function sniffContainer(bytes: Uint8Array, complete: boolean): Container | null {
+  if (bytes.length < 12) return complete ? 'other' : null;
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'webm';
+  if (ascii(bytes, 4, 4) !== 'ftyp') return 'other';
+
+  for (const box of boxes(bytes, 0, bytes.length)) {
+    if (box.type === 'moof') return 'fragmented-mp4';
+    // Media data before the movie header means the index is at the end
+    if (box.type === 'mdat') return 'other';
+    if (box.type === 'moov') {
+      // A movie header running past the end of what's there can't be fed in order
+      if (box.offset + box.size > bytes.length) return complete || box.size > SNIFF_LIMIT ? 'other' : null;
+      const children = boxes(bytes, box.offset + box.header, box.offset + box.size);
+      return Array.from(children).some(child => child.type === 'mvex') ? 'fragmented-mp4' : 'other';
+    }
+  }
+  return complete ? 'other' : null;
+}
+
+function concat(parts: ArrayBuffer[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(new Uint8Array(part), offset);
+    offset += part.byteLength;
+  }
+  return bytes;
+}
+
+const once = (target: EventTarget, type: string) =>
+  new Promise<void>(resolve => target.addEventListener(type, () => resolve(), { once: true }));
+
+// Hands the service worker a URL the player can load; every range request
+// for it is answered from the file as its bytes arrive
+async function openRangeStream(source: ReceivingFile): Promise<{ url: string; close: () => void }> {
+  const worker = navigator.serviceWorker?.controller;
+  if (!worker) {
+    throw new Error('Service worker is not active');
+  }
+
+  const channel = new MessageChannel();
+  const id = Math.random().toString(36).slice(2);
+  const readers = new Set<InOrderReader>();
+
+  const url = await new Promise<string>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Service worker did not respond')), 5000);
+    channel.port1.onmessage = (event) => {
+      if (event.data?.type === 'ready') {
+        clearTimeout(timer);
+        resolve(event.data.url);
+      } else if (event.data?.type === 'range') {
+        serveRange(source, event.data.start, event.data.end, event.ports[0], readers);
+      }
+    };
+    worker.postMessage({ type: 'watch', id, fileName: source.fileName, fileType: source.fileType, fileSize: source.fileSize }, [channel.port2]);
+  });
+
+  return {
+    url,
+    close: () => {
+      readers.forEach(reader => reader.close());
+      channel.port1.postMessage({ type: 'close' });
+      channel.port1.close();
+    }
+  };
+}
+
+function serveRange(source: ReceivingFile, start: number, end: number, port: MessagePort, readers: Set<InOrderReader>) {
+  const reader = new InOrderReader(source, start);
+  readers.add(reader);
+  let remaining = end - start + 1;
+
+  const stop = () => {
+    reader.close();
+    readers.delete(reader);
+    port.close();
+  };
+
+  port.onmessage = async ({ data }) => {
+    if (data.type === 'cancel') {
+      stop();
+      return;
+    }
+    try {
+      const piece = remaining > 0 ? await reader.read(remaining) : null;
+      if (!piece) {
+        port.postMessage({ type: 'end' });
+        stop();
+        return;
+      }
+      remaining -= piece.byteLength;
+      port.postMessage({ type: 'chunk', data: piece }, [piece]);
+    } catch {
+      port.postMessage({ type: 'abort' });
+      stop();
+    }
+  };
+}
+
+// One player following one file. start() picks how to play it from the first
+// bytes, which may mean waiting for them to arrive.
+export class ProgressivePlayback {
+  private reader: InOrderReader;
+  private objectUrl: string | null = null;
+  private rangeStream: { close: () => void } | null = null;
+  private closed = false;
+
+  constructor(private source: ReceivingFile) {
+    this.reader = new InOrderReader(source, 0);
+  }
+
+  // Resolves with how the file is being played, or null when this browser can't play it until it's all here
+  async start(media: HTMLMediaElement): Promise<PlaybackMode | null> {
+    const head: ArrayBuffer[] = [];
+    let headBytes = 0;
+    let container: Container | null = null;
+    while (!container) {
+      const piece = await this.reader.read(READ_SIZE);
+      if (this.closed) return null;
+      if (!piece) {
+        // End of the file: whatever came of it is all there is to go on
+        container = sniffContainer(concat(head), true) ?? 'other';
+        break;
+      }
+      head.push(piece);
+      headBytes += piece.byteLength;
+      container = sniffContainer(concat(head), headBytes >= SNIFF_LIMIT);
+    }
+
+    const kind = this.source.fileType.startsWith('audio/') ? 'audio' : 'video';
+    const mimeType = container === 'webm' ? `${kind}/webm` : `${kind}/mp4`;
+    if (container !== 'other' && typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported(mimeType)) {
+      this.playFromMediaSource(media, mimeType, head);
+      return 'media-source';
+    }
+
+    this.reader.close();
+    if (!navigator.serviceWorker?.controller) return null;
+    const stream = await openRangeStream(this.source);
+    if (this.closed) {
+      stream.close();
+      return null;
+    }
+    this.rangeStream = stream;
+    media.src = stream.url;
+    return 'range-stream';
+  }
+
+  destroy() {
+    this.closed = true;
+    this.reader.close();
+    this.rangeStream?.close();
+    if (this.objectUrl) URL.revokeObjectURL(this.objectUrl);
+  }
+
+  private async playFromMediaSource(media: HTMLMediaElement, mimeType: string, head: ArrayBuffer[]) {
+    const mediaSource = new MediaSource();
+    this.objectUrl = URL.createObjectURL(mediaSource);
+    media.src = this.objectUrl;
+    await once(mediaSource, 'sourceopen');
+    if (this.closed) return;
+
+    try {
+      const buffer = mediaSource.addSourceBuffer(mimeType);
+      for (const piece of head) {
+        await this.append(media, buffer, piece);
+      }
+      for (let piece = await this.reader.read(READ_SIZE); piece; piece = await this.reader.read(READ_SIZE)) {
+        await this.append(media, buffer, piece);
+      }
+      if (!this.closed && mediaSource.readyState === 'open') mediaSource.endOfStream();
+    } catch (err) {
+      // A stream the browser can't parse ends with a decode error on the media element
+      if (!this.closed && mediaSource.readyState === 'open') mediaSource.endOfStream('decode');
+      console.error('Progressive playback stopped:', err);
+    }
+  }
+
+  private async append(media: HTMLMediaElement, buffer: SourceBuffer, data: ArrayBuffer) {
+    while (!this.closed) {
+      try {
+        buffer.appendBuffer(data);
+        await once(buffer, 'updateend');
+        return;
+      } catch (err) {
+        if (!(err instanceof DOMException && err.name === 'QuotaExceededError')) throw err;
+        // Full: let go of what's been played, or wait for playback to move on
+        const played = media.currentTime - KEEP_BEHIND_SECONDS;
+        if (buffer.buffered.length > 0 && buffer.buffered.start(0) < played) {
+          buffer.remove(0, played);
+          await once(buffer, 'updateend');
+        } else {
+          await once(media, 'timeupdate');
+        }
+      }
+    }
+  }
+}
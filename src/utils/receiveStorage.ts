@@ -0,0 +1,542 @@
+// Where received file data goes while it arrives. Every backend writes chunks
+// as they come in, so memory use doesn't grow with the size of the file.
+
+import { Sha256, toHex } from './sha256';
+
+export type StorageKind = 'file-system' | 'opfs' | 'service-worker' | 'memory' | 'zip';
+
+export interface StorageTarget {
+  transferId: string;
+  fileKey: string;
+  fileName: string;
+  relativePath?: string; // set for files sent as part of a folder
+  fileType: string;
+  fileSize: number;
+}
+
+export interface ReceiveStorage {
+  readonly kind: StorageKind;
+  // Whether partial data survives a page reload and can be reopened with reopenStorage()
+  readonly resumable: boolean;
+  write(offset: number, data: ArrayBuffer): Promise<void>;
+  // Commits the data and checks it against the sender's hash. Resolves with the
+  // received file where the app can still read it, or null once it has been handed to the browser.
+  finish(expectedHash: string): Promise<File | null>;
+  discard(): Promise<void>;
+  // Read back data already written, so a file can be played while it arrives:
+  // readableFrom() says how much from offset can be read yet, up to max.
+  // Backends that hand the data straight to the browser leave both out.
+  readableFrom?(offset: number, max: number): number;
+  read?(offset: number, length: number): Promise<Blob>;
+}
+
+export interface ResumableStorage extends ReceiveStorage {
+  // Whether a byte range written before a reload actually made it to disk
+  hasRange(offset: number, length: number): boolean;
+}
+
+export class IntegrityError extends Error {
+  constructor(fileName: string) {
+    super(`Hash mismatch for ${fileName}`);
+    this.name = 'IntegrityError';
+  }
+}
+
+// Received data has nowhere to go, e.g. the download was cancelled or the file is too large to hold
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+async function hashStream(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const hasher = new Sha256();
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    hasher.update(value);
+  }
+  return toHex(hasher.digest());
+}
+
+// --- Origin private file system -------------------------------------------
+
+const OPFS_DIR = 'zapdrop-received';
+
+// Data is split across segment files. A writable only commits on close, so
+// closing each segment as soon as it's full keeps everything before it on disk
+// if the page goes away mid-transfer.
+const SEGMENT_SIZE = 64 * 1024 * 1024; // 64MB
+
+export function supportsOpfs(): boolean {
+  return typeof navigator !== 'undefined'
+    && !!navigator.storage?.getDirectory
+    && typeof FileSystemFileHandle !== 'undefined'
+    && 'createWritable' in FileSystemFileHandle.prototype;
+}
+
+async function getOpfsRoot(): Promise<FileSystemDirectoryHandle> {
+  const root = await navigator.storage.getDirectory();
+  return root.getDirectoryHandle(OPFS_DIR, { create: true });
+}
+
+// File names can hold anything, so directories are named by a hash of the key
+export async function getOpfsDirName(fileKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(fileKey));
+  return toHex(digest).slice(0, 32);
+}
+
+class OpfsStorage implements ResumableStorage {
+  readonly kind = 'opfs';
+  readonly resumable = true;
+  private writables = new Map<number, FileSystemWritableFileStream>();
+  private segmentBytes: number[];
+
+  constructor(
+    private target: StorageTarget,
+    private dir: FileSystemDirectoryHandle,
+    completeSegments: Set<number>
+  ) {
+    const segmentCount = Math.ceil(target.fileSize / SEGMENT_SIZE);
+    this.segmentBytes = Array.from({ length: segmentCount }, (_, i) =>
+      completeSegments.has(i) ? this.segmentLength(i) : 0
+    );
+  }
+
+  private segmentLength(segment: number): number {
+    return Math.min(SEGMENT_SIZE, this.target.fileSize - segment * SEGMENT_SIZE);
+  }
+
+  hasRange(offset: number, length: number): boolean {
+    const first = Math.floor(offset / SEGMENT_SIZE);
+    const last = Math.floor((offset + Math.max(length, 1) - 1) / SEGMENT_SIZE);
+    for (let segment = first; segment <= last; segment++) {
+      if (this.segmentBytes[segment] !== this.segmentLength(segment)) return false;
+    }
+    return true;
+  }
+
+  async write(offset: number, data: ArrayBuffer): Promise<void> {
+    let written = 0;
+    while (written < data.byteLength) {
+      const position = offset + written;
+      const segment = Math.floor(position / SEGMENT_SIZE);
+      const segmentOffset = position - segment * SEGMENT_SIZE;
+      const length = Math.min(data.byteLength - written, SEGMENT_SIZE - segmentOffset);
+
+      let writable = this.writables.get(segment);
+      if (!writable) {
+        const handle = await this.dir.getFileHandle(String(segment), { create: true });
+        writable = await handle.createWritable({ keepExistingData: true });
+        this.writables.set(segment, writable);
+      }
+
+      await writable.write({ type: 'write', position: segmentOffset, data: data.slice(written, written + length) });
+      written += length;
+
+      // Counted only once closed, so a full segment is always one that can be read back
+      if (this.segmentBytes[segment] + length >= this.segmentLength(segment)) {
+        this.writables.delete(segment);
+        await writable.close();
+      }
+      this.segmentBytes[segment] += length;
+    }
+  }
+
+  async finish(expectedHash: string): Promise<File> {
+    for (const writable of this.writables.values()) {
+      await writable.close();
+    }
+    this.writables.clear();
+
+    const segments: File[] = [];
+    for (let i = 0; i < this.segmentBytes.length; i++) {
+      const handle = await this.dir.getFileHandle(String(i));
+      segments.push(await handle.getFile());
+    }
+    // Stitching the segments together is free: the File just points at them on disk
+    const file = new File(segments, this.target.fileName, { type: this.target.fileType });
+
+    if (await hashStream(file.stream()) !== expectedHash) {
+      await this.discard();
+      throw new IntegrityError(this.target.fileName);
+    }
+    return file;
+  }
+
+  // Only full segments can be read back. A segment still being written isn't on
+  // disk until its writable closes, and closing it early would have the next
+  // write copy the whole segment again; a player gets that data as it's written.
+  readableFrom(offset: number, max: number): number {
+    const end = Math.min(offset + max, this.target.fileSize);
+    let position = offset;
+    while (position < end) {
+      const segment = Math.floor(position / SEGMENT_SIZE);
+      if (this.segmentBytes[segment] < this.segmentLength(segment)) break;
+      position = (segment + 1) * SEGMENT_SIZE;
+    }
+    return Math.max(Math.min(position, end) - offset, 0);
+  }
+
+  async read(offset: number, length: number): Promise<Blob> {
+    const end = offset + length;
+    const parts: Blob[] = [];
+    for (let segment = Math.floor(offset / SEGMENT_SIZE); segment * SEGMENT_SIZE < end; segment++) {
+      const file = await (await this.dir.getFileHandle(String(segment))).getFile();
+      const start = segment * SEGMENT_SIZE;
+      parts.push(file.slice(Math.max(offset - start, 0), Math.min(end - start, SEGMENT_SIZE)));
+    }
+    return new Blob(parts);
+  }
+
+  async discard(): Promise<void> {
+    for (const writable of this.writables.values()) {
+      await writable.abort().catch(() => {});
+    }
+    this.writables.clear();
+
+    const root = await getOpfsRoot();
+    await root.removeEntry(this.dir.name, { recursive: true }).catch(() => {});
+  }
+}
+
+export async function createOpfsStorage(target: StorageTarget): Promise<ReceiveStorage> {
+  const root = await getOpfsRoot();
+  const name = await getOpfsDirName(target.fileKey);
+  // Start from a clean directory in case an old attempt left segments behind
+  await root.removeEntry(name, { recursive: true }).catch(() => {});
+  const dir = await root.getDirectoryHandle(name, { create: true });
+  return new OpfsStorage(target, dir, new Set());
+}
+
+export async function reopenStorage(kind: StorageKind, target: StorageTarget): Promise<ResumableStorage | null> {
+  if (kind !== 'opfs' || !supportsOpfs()) return null;
+
+  const root = await getOpfsRoot();
+  let dir: FileSystemDirectoryHandle;
+  try {
+    dir = await root.getDirectoryHandle(await getOpfsDirName(target.fileKey));
+  } catch {
+    return null;
+  }
+
+  // Only segments that were closed (and so are full length) can be trusted;
+  // anything else is thrown away and received again.
+  const completeSegments = new Set<number>();
+  const segmentCount = Math.ceil(target.fileSize / SEGMENT_SIZE);
+  for (let i = 0; i < segmentCount; i++) {
+    const expected = Math.min(SEGMENT_SIZE, target.fileSize - i * SEGMENT_SIZE);
+    try {
+      const file = await (await dir.getFileHandle(String(i))).getFile();
+      if (file.size === expected) {
+        completeSegments.add(i);
+      } else {
+        await dir.removeEntry(String(i));
+      }
+    } catch {
+      // Segment never committed
+    }
+  }
+
+  return new OpfsStorage(target, dir, completeSegments);
+}
+
+// Removes OPFS data for anything not in keepDirs (see getOpfsDirName)
+export async function pruneOpfsStorage(keepDirs: Set<string>): Promise<void> {
+  if (!supportsOpfs()) return;
+
+  const root = await getOpfsRoot();
+  const names: string[] = [];
+  for await (const name of root.keys()) {
+    names.push(name);
+  }
+  for (const name of names) {
+    if (!keepDirs.has(name)) {
+      await root.removeEntry(name, { recursive: true }).catch(() => {});
+    }
+  }
+}
+
+// --- File System Access API (user-chosen location) ------------------------
+
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+}
+
+type SaveFilePickerWindow = Window & {
+  showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+};
+
+export function canPickSaveLocation(): boolean {
+  return typeof window !== 'undefined' && typeof (window as SaveFilePickerWindow).showSaveFilePicker === 'function';
+}
+
+// Must be called from a user gesture. Resolves with null if the user cancels.
+export async function pickSaveLocation(fileName: string): Promise<FileSystemFileHandle | null> {
+  const picker = (window as SaveFilePickerWindow).showSaveFilePicker;
+  if (!picker) return null;
+
+  try {
+    return await picker({ suggestedName: fileName });
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') return null;
+    throw err;
+  }
+}
+
+class FileSystemStorage implements ReceiveStorage {
+  readonly kind = 'file-system';
+  readonly resumable = false;
+
+  constructor(
+    private target: StorageTarget,
+    private handle: FileSystemFileHandle,
+    private writable: FileSystemWritableFileStream
+  ) {}
+
+  async write(offset: number, data: ArrayBuffer): Promise<void> {
+    await this.writable.write({ type: 'write', position: offset, data });
+  }
+
+  async finish(expectedHash: string): Promise<File> {
+    await this.writable.close();
+    const file = await this.handle.getFile();
+
+    if (await hashStream(file.stream()) !== expectedHash) {
+      await this.removeFile();
+      throw new IntegrityError(this.target.fileName);
+    }
+    return file;
+  }
+
+  async discard(): Promise<void> {
+    // Aborting drops the uncommitted data; the (empty) file the picker created goes too
+    await this.writable.abort().catch(() => {});
+    await this.removeFile();
+  }
+
+  private async removeFile() {
+    const removable = this.handle as FileSystemFileHandle & { remove?: () => Promise<void> };
+    await removable.remove?.().catch(() => {});
+  }
+}
+
+export async function createFileSystemStorage(target: StorageTarget, handle: FileSystemFileHandle): Promise<ReceiveStorage> {
+  const writable = await handle.createWritable();
+  return new FileSystemStorage(target, handle, writable);
+}
+
+// --- Service worker streaming download ------------------------------------
+
+// The page pushes chunks through a MessageChannel into a ReadableStream held by
+// public/sw.js, which serves it as an ordinary file download.
+
+export function supportsServiceWorkerDownload(): boolean {
+  return typeof navigator !== 'undefined' && !!navigator.serviceWorker?.controller;
+}
+
+// Bytes a download's stream has room for. The worker asks again whenever it runs low,
+// so a download written slower than the data arrives doesn't fill the worker.
+export class DownloadAllowance {
+  private bytes = 0;
+  // Several writers can share one download, as the files of a ZIP do
+  private waiters: (() => void)[] = [];
+  // Set when the user cancels the download in the browser
+  public cancelled = false;
+
+  constructor(port: MessagePort, private fileName: string) {
+    port.onmessage = ({ data }) => {
+      if (data?.type === 'pull') {
+        this.bytes = data.bytes;
+      } else if (data?.type === 'cancel') {
+        this.cancelled = true;
+      }
+      this.waiters.splice(0).forEach(wake => wake());
+    };
+  }
+
+  // Resolves once there's room; throws if the user cancelled the download
+  async wait(): Promise<void> {
+    while (this.bytes <= 0 && !this.cancelled) {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    if (this.cancelled) {
+      throw new StorageError(`The download of ${this.fileName} was cancelled`);
+    }
+  }
+
+  spend(bytes: number) {
+    this.bytes -= bytes;
+  }
+}
+
+class ServiceWorkerStorage implements ReceiveStorage {
+  readonly kind = 'service-worker';
+  readonly resumable = false;
+  // A download stream can only go forward, so chunks that arrive early wait here
+  private pending = new Map<number, ArrayBuffer>();
+  private nextOffset = 0;
+  private hasher = new Sha256();
+  private allowance: DownloadAllowance;
+
+  constructor(private target: StorageTarget, private port: MessagePort) {
+    this.allowance = new DownloadAllowance(port, target.fileName);
+  }
+
+  async write(offset: number, data: ArrayBuffer): Promise<void> {
+    if (offset < this.nextOffset) return;
+    this.pending.set(offset, data);
+
+    let next = this.pending.get(this.nextOffset);
+    while (next) {
+      await this.allowance.wait();
+
+      this.pending.delete(this.nextOffset);
+      this.hasher.update(next);
+      this.allowance.spend(next.byteLength);
+      this.port.postMessage({ type: 'chunk', data: next }, [next]);
+      this.nextOffset += next.byteLength;
+      next = this.pending.get(this.nextOffset);
+    }
+  }
+
+  async finish(expectedHash: string): Promise<null> {
+    if (this.nextOffset !== this.target.fileSize || toHex(this.hasher.digest()) !== expectedHash) {
+      // Erroring the stream makes the browser mark the download as failed
+      this.port.postMessage({ type: 'abort' });
+      this.port.close();
+      throw new IntegrityError(this.target.fileName);
+    }
+
+    this.port.postMessage({ type: 'end' });
+    this.port.close();
+    return null;
+  }
+
+  async discard(): Promise<void> {
+    this.pending.clear();
+    this.port.postMessage({ type: 'abort' });
+    this.port.close();
+  }
+}
+
+// Starts a browser download fed by whatever is posted to the returned port
+export async function openServiceWorkerDownload(fileName: string, fileType: string, fileSize?: number): Promise<MessagePort> {
+  const worker = navigator.serviceWorker.controller;
+  if (!worker) {
+    throw new Error('Service worker is not active');
+  }
+
+  const channel = new MessageChannel();
+  const id = Math.random().toString(36).slice(2);
+
+  const url = await new Promise<string>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Service worker did not respond')), 5000);
+    channel.port1.onmessage = (event) => {
+      if (event.data?.type === 'ready') {
+        clearTimeout(timer);
+        channel.port1.onmessage = null;
+        resolve(event.data.url);
+      }
+    };
+    worker.postMessage({ type: 'download', id, fileName, fileType, fileSize }, [channel.port2]);
+  });
+
+  // Navigating a hidden frame to the stream's URL starts the browser download
+  const frame = document.createElement('iframe');
+  frame.hidden = true;
+  frame.src = url;
+  document.body.appendChild(frame);
+  setTimeout(() => frame.remove(), 60 * 1000);
+
+  return channel.port1;
+}
+
+export async function createServiceWorkerStorage(target: StorageTarget): Promise<ReceiveStorage> {
+  const port = await openServiceWorkerDownload(target.fileName, target.fileType, target.fileSize);
+  return new ServiceWorkerStorage(target, port);
+}
+
+// --- In-memory fallback ---------------------------------------------------
+
+// The whole file is held until it's done, so past this it's refused rather than risking the tab
+export const MEMORY_STORAGE_LIMIT = 512 * 1024 * 1024; // 512MB
+
+class MemoryStorage implements ReceiveStorage {
+  readonly kind = 'memory';
+  readonly resumable = false;
+  private parts = new Map<number, ArrayBuffer>();
+  // Kept once finished, for a player still reading it
+  private file: File | null = null;
+
+  constructor(private target: StorageTarget) {}
+
+  async write(offset: number, data: ArrayBuffer): Promise<void> {
+    this.parts.set(offset, data);
+  }
+
+  async finish(expectedHash: string): Promise<File> {
+    const offsets = Array.from(this.parts.keys()).sort((a, b) => a - b);
+    const hasher = new Sha256();
+    const parts = offsets.map(offset => {
+      const part = this.parts.get(offset)!;
+      hasher.update(part);
+      return part;
+    });
+    this.parts.clear();
+
+    if (toHex(hasher.digest()) !== expectedHash) {
+      throw new IntegrityError(this.target.fileName);
+    }
+    this.file = new File(parts, this.target.fileName, { type: this.target.fileType });
+    return this.file;
+  }
+
+  async discard(): Promise<void> {
+    this.parts.clear();
+    this.file = null;
+  }
+
+  readableFrom(_offset: number, max: number): number {
+    return max;
+  }
+
+  async read(offset: number, length: number): Promise<Blob> {
+    const end = offset + length;
+    if (this.file) return this.file.slice(offset, end);
+
+    const parts = Array.from(this.parts)
+      .filter(([start, part]) => start < end && start + part.byteLength > offset)
+      .sort(([a], [b]) => a - b)
+      .map(([start, part]) => part.slice(Math.max(offset - start, 0), Math.min(end - start, part.byteLength)));
+    return new Blob(parts);
+  }
+}
+
+export function createMemoryStorage(target: StorageTarget): ReceiveStorage {
+  return new MemoryStorage(target);
+}
+
+// Best backend this browser has that doesn't need a user gesture
+export async function createDefaultStorage(target: StorageTarget): Promise<ReceiveStorage> {
+  if (supportsOpfs()) {
+    try {
+      return await createOpfsStorage(target);
+    } catch (err) {
+      console.error('OPFS unavailable:', err);
+    }
+  }
+  if (supportsServiceWorkerDownload()) {
+    try {
+      return await createServiceWorkerStorage(target);
+    } catch (err) {
+      console.error('Service worker download unavailable:', err);
+    }
+  }
+  if (target.fileSize > MEMORY_STORAGE_LIMIT) {
+    throw new StorageError(`${target.fileName} is too large to receive in this browser, which can't save files as they arrive`);
+  }
+  return createMemoryStorage(target);
+}
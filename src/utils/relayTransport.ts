@@ -0,0 +1,407 @@
+// Transport through a WebSocket relay (relay/server.js), for when WebRTC can't
+// get through either side's NAT. The relay only forwards frames between peer
+// IDs. Both ends agree on an AES-GCM key with ECDH and encrypt everything
+// with it, so the relay never sees what's sent. Verification codes come from
+// the two ECDH public keys, so a relay that swapped in its own keys to read
+// along would show different codes on the two screens.
+//
+// Relay wire format, both directions: [1 byte ID length][peer ID][payload].
+// Going to the relay the ID is the destination; coming back it's the sender.
+// The relay reports peers it doesn't know with a text frame.
+//
+// Payload: [1 byte frame kind][body]
+
+import { toHex } from './sha256';
+import { Transport } from './transport';
+
+const FRAME_HELLO = 1; // body: our ECDH public key, raw
+const FRAME_HELLO_REPLY = 2; // same, in answer to a hello
+const FRAME_DATA = 3; // body: 12-byte nonce, then AES-GCM ciphertext of an encoded message
+const FRAME_CLOSE = 4;
+
+const ECDH: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' };
+const RECONNECT_DELAY_MS = 5000;
+// WebSockets have no bufferedamountlow event, so it's polled
+const BUFFER_POLL_MS = 50;
+
+interface RelayNotice {
+  type: 'unavailable';
+  peer: string;
+}
+
+// --- Message encoding -------------------------------------------------------
+
+// Messages are plain objects with ArrayBuffers in them, like the ones PeerJS
+// carries. Buffers are pulled out of the JSON and appended after it:
+// [4 bytes JSON length][JSON][4 bytes length, buffer]...
+const BUFFER_TAG = '$zapdropBuffer';
+
+function encodeMessage(message: unknown): Uint8Array<ArrayBuffer> {
+  const buffers: Uint8Array[] = [];
+  const json = JSON.stringify(message, (_key, value) => {
+    if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+      const bytes = value instanceof ArrayBuffer
+        ? new Uint8Array(value)
+        : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+      buffers.push(bytes);
+      return { [BUFFER_TAG]: buffers.length - 1 };
+    }
+    return value;
+  });
+  const text = new TextEncoder().encode(json);
+
+  const size = 4 + text.length + buffers.reduce((sum, buffer) => sum + 4 + buffer.byteLength, 0);
+  const out = new Uint8Array(size);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, text.length);
+  out.set(text, 4);
+  let offset = 4 + text.length;
+  for (const buffer of buffers) {
+    view.setUint32(offset, buffer.byteLength);
+    out.set(buffer, offset + 4);
+    offset += 4 + buffer.byteLength;
+  }
+  return out;
+}
+
+function decodeMessage(data: ArrayBuffer): unknown {
+  const view = new DataView(data);
+  const textLength = view.getUint32(0);
+  const json = new TextDecoder().decode(new Uint8Array(data, 4, textLength));
+
+  const buffers: ArrayBuffer[] = [];
+  let offset = 4 + textLength;
+  while (offset < data.byteLength) {
+    const length = view.getUint32(offset);
+    buffers.push(data.slice(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+  }
+
+  return JSON.parse(json, (_key, value) =>
+    value && typeof value === 'object' && typeof value[BUFFER_TAG] === 'number' ? buffers[value[BUFFER_TAG]] : value
+  );
+}
+
+// --- Transport ----------------------------------------------------------------
+
+export class RelayTransport implements Transport {
+  readonly kind = 'relay';
+  open = false;
+  private key: CryptoKey | null = null;
+  private localPublic: Uint8Array<ArrayBuffer> | null = null;
+  private remotePublic: Uint8Array<ArrayBuffer> | null = null;
+  private sendCounter = 0;
+  private receiveCounter = 0;
+  // Encryption and decryption are async; chaining them keeps messages in order
+  private sendChain = Promise.resolve();
+  private receiveChain = Promise.resolve();
+  // Bytes waiting for encryption, which the socket doesn't know about yet
+  private pendingBytes = 0;
+  private messageListeners = new Set<(message: unknown) => void>();
+  private closeListeners = new Set<() => void>();
+  private openListeners = new Set<() => void>();
+  private closed = false;
+
+  // initiator is the side that sent the first hello; it picks the nonce prefixes apart
+  constructor(
+    readonly peer: string,
+    private client: RelayClient,
+    private keyPair: CryptoKeyPair,
+    private initiator: boolean
+  ) {}
+
+  get bufferedAmount(): number {
+    return this.client.bufferedAmount + this.pendingBytes;
+  }
+
+  // Sends our public key; a reply is what the other side sends back
+  async sendHello(reply: boolean) {
+    this.localPublic = new Uint8Array(await crypto.subtle.exportKey('raw', this.keyPair.publicKey));
+    this.client.sendFrame(this.peer, reply ? FRAME_HELLO_REPLY : FRAME_HELLO, this.localPublic);
+  }
+
+  async acceptKey(remotePublic: Uint8Array<ArrayBuffer>) {
+    const publicKey = await crypto.subtle.importKey('raw', remotePublic, ECDH, false, []);
+    const secret = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, this.keyPair.privateKey, 256);
+    const hkdfKey = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+    // Both public keys go into the key, in the same order on both ends
+    const [first, second] = this.initiator ? [this.localPublic!, remotePublic] : [remotePublic, this.localPublic!];
+    const salt = new Uint8Array(first.length + second.length);
+    salt.set(first);
+    salt.set(second, first.length);
+    this.key = await crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode('zapdrop relay v1') },
+      hkdfKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+    this.remotePublic = remotePublic;
+    this.open = true;
+    this.openListeners.forEach(listener => listener());
+    this.openListeners.clear();
+  }
+
+  onOpen(listener: () => void): () => void {
+    this.openListeners.add(listener);
+    return () => this.openListeners.delete(listener);
+  }
+
+  send(message: unknown) {
+    if (!this.open || !this.key) throw new Error('Relay connection is not open');
+    const key = this.key;
+    const plain = encodeMessage(message);
+    const iv = new Uint8Array(12);
+    const view = new DataView(iv.buffer);
+    // One side counts with a 1 in front, the other with a 2, so nonces never repeat under the shared key
+    view.setUint8(0, this.initiator ? 1 : 2);
+    view.setUint32(4, Math.floor(this.sendCounter / 0x100000000));
+    view.setUint32(8, this.sendCounter % 0x100000000);
+    this.sendCounter++;
+
+    this.pendingBytes += plain.byteLength;
+    this.sendChain = this.sendChain.then(async () => {
+      const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plain));
+      this.pendingBytes -= plain.byteLength;
+      if (this.closed) return;
+      const body = new Uint8Array(iv.length + ciphertext.length);
+      body.set(iv);
+      body.set(ciphertext, iv.length);
+      this.client.sendFrame(this.peer, FRAME_DATA, body);
+    }).catch(err => {
+      console.error('Relay encryption failed:', err);
+      this.close();
+    });
+  }
+
+  receiveData(body: Uint8Array<ArrayBuffer>) {
+    const key = this.key;
+    if (!key || body.length < 12) return;
+    // The relay could replay or reorder frames; the other side's counter must go up by exactly one each time
+    const iv = body.slice(0, 12);
+    const view = new DataView(iv.buffer);
+    const counter = view.getUint32(4) * 0x100000000 + view.getUint32(8);
+    if (view.getUint8(0) !== (this.initiator ? 2 : 1) || counter !== this.receiveCounter) {
+      console.error('Relay frame out of sequence');
+      this.close();
+      return;
+    }
+    this.receiveCounter++;
+
+    this.receiveChain = this.receiveChain.then(async () => {
+      const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, body.slice(12));
+      if (!this.closed) {
+        const message = decodeMessage(plain);
+        this.messageListeners.forEach(listener => listener(message));
+      }
+    }).catch(err => {
+      // Tampered with on the way, or not from the key holder: nothing on this link can be trusted
+      console.error('Relay frame rejected:', err);
+      this.close();
+    });
+  }
+
+  onMessage(listener: (message: unknown) => void): () => void {
+    this.messageListeners.add(listener);
+    return () => this.messageListeners.delete(listener);
+  }
+
+  onClose(listener: () => void): () => void {
+    this.closeListeners.add(listener);
+    return () => this.closeListeners.delete(listener);
+  }
+
+  onBufferedAmountLow(threshold: number, listener: () => void): () => void {
+    const timer = setInterval(() => {
+      if (this.bufferedAmount <= threshold) listener();
+    }, BUFFER_POLL_MS);
+    return () => clearInterval(timer);
+  }
+
+  close(options?: { flush?: boolean }) {
+    if (this.closed) return;
+    const finish = () => {
+      this.client.sendFrame(this.peer, FRAME_CLOSE, new Uint8Array(0));
+      this.handleClosed();
+    };
+    if (options?.flush) {
+      this.sendChain.then(finish);
+    } else {
+      finish();
+    }
+  }
+
+  // The other side closed, or the relay went away
+  handleClosed() {
+    if (this.closed) return;
+    this.closed = true;
+    this.open = false;
+    this.client.forget(this);
+    this.closeListeners.forEach(listener => listener());
+  }
+
+  getFingerprints(): { local: string; remote: string } | null {
+    if (!this.localPublic || !this.remotePublic) return null;
+    return { local: `ecdh ${toHex(this.localPublic)}`, remote: `ecdh ${toHex(this.remotePublic)}` };
+  }
+}
+
+// --- Client -------------------------------------------------------------------
+
+// One WebSocket to the relay per page, registered under this page's peer ID,
+// carrying any number of RelayTransports
+export class RelayClient {
+  private socket: WebSocket | null = null;
+  private transports = new Map<string, RelayTransport>();
+  private pendingDials = new Map<string, (error: Error) => void>();
+  // Frames are handled one at a time, so data never overtakes the handshake before it
+  private frameChain = Promise.resolve();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private destroyed = false;
+
+  // Called when another device reaches this one through the relay
+  public onTransport: ((transport: RelayTransport) => void) | null = null;
+
+  constructor(private url: string, private peerId: string) {
+    this.connect();
+  }
+
+  get bufferedAmount(): number {
+    return this.socket?.bufferedAmount ?? 0;
+  }
+
+  get connected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  // Fails after timeoutMs, or straight away if the other device isn't on the relay
+  dial(remoteId: string, timeoutMs: number): Promise<RelayTransport> {
+    return new Promise((resolve, reject) => {
+      if (!this.connected) {
+        reject(new Error('Relay is not connected'));
+        return;
+      }
+      let transport: RelayTransport | null = null;
+      let stopOpen = () => {};
+      const fail = (error: Error) => {
+        clearTimeout(timer);
+        stopOpen();
+        this.pendingDials.delete(remoteId);
+        if (transport) {
+          this.forget(transport);
+        }
+        reject(error);
+      };
+      const timer = setTimeout(() => fail(new Error(`${remoteId} did not answer through the relay`)), timeoutMs);
+      this.pendingDials.set(remoteId, fail);
+
+      crypto.subtle.generateKey(ECDH, false, ['deriveBits'])
+        .then(keyPair => {
+          if (!this.pendingDials.has(remoteId)) return;
+          const dialing = new RelayTransport(remoteId, this, keyPair, true);
+          transport = dialing;
+          this.replace(dialing);
+          stopOpen = dialing.onOpen(() => {
+            clearTimeout(timer);
+            this.pendingDials.delete(remoteId);
+            resolve(dialing);
+          });
+          return dialing.sendHello(false);
+        })
+        .catch(err => fail(err instanceof Error ? err : new Error('Relay handshake failed')));
+    });
+  }
+
+  sendFrame(remoteId: string, kind: number, body: Uint8Array) {
+    if (!this.connected) return;
+    const id = new TextEncoder().encode(remoteId);
+    const frame = new Uint8Array(2 + id.length + body.length);
+    frame[0] = id.length;
+    frame.set(id, 1);
+    frame[1 + id.length] = kind;
+    frame.set(body, 2 + id.length);
+    this.socket!.send(frame);
+  }
+
+  forget(transport: RelayTransport) {
+    if (this.transports.get(transport.peer) === transport) this.transports.delete(transport.peer);
+  }
+
+  destroy() {
+    this.destroyed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    Array.from(this.transports.values()).forEach(transport => transport.close());
+    this.socket?.close();
+  }
+
+  private connect() {
+    const url = new URL(this.url);
+    url.searchParams.set('id', this.peerId);
+    const socket = new WebSocket(url);
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+
+    socket.onmessage = (event) => {
+      if (typeof event.data === 'string') {
+        this.handleNotice(event.data);
+      } else {
+        const frame = new Uint8Array(event.data as ArrayBuffer);
+        this.frameChain = this.frameChain
+          .then(() => this.handleFrame(frame))
+          .catch(err => console.error('Relay frame failed:', err));
+      }
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      Array.from(this.transports.values()).forEach(transport => transport.handleClosed());
+      this.pendingDials.forEach(fail => fail(new Error('Relay connection closed')));
+      if (!this.destroyed) {
+        this.reconnectTimer = setTimeout(() => this.connect(), RECONNECT_DELAY_MS);
+      }
+    };
+    socket.onerror = () => console.warn('Relay connection failed:', this.url);
+  }
+
+  private handleNotice(text: string) {
+    let notice: RelayNotice;
+    try {
+      notice = JSON.parse(text);
+    } catch {
+      return;
+    }
+    if (notice.type === 'unavailable') {
+      this.pendingDials.get(notice.peer)?.(new Error(`${notice.peer} is not on the relay`));
+    }
+  }
+
+  // A new connection from a peer replaces whatever was left of its old one
+  private replace(transport: RelayTransport) {
+    const existing = this.transports.get(transport.peer);
+    this.transports.set(transport.peer, transport);
+    existing?.handleClosed();
+  }
+
+  private async handleFrame(frame: Uint8Array<ArrayBuffer>) {
+    const idLength = frame[0];
+    const from = new TextDecoder().decode(frame.subarray(1, 1 + idLength));
+    const kind = frame[1 + idLength];
+    const body = frame.slice(2 + idLength);
+    const transport = this.transports.get(from);
+
+    if (kind === FRAME_HELLO) {
+      const keyPair = await crypto.subtle.generateKey(ECDH, false, ['deriveBits']);
+      const incoming = new RelayTransport(from, this, keyPair, false);
+      this.replace(incoming);
+      await incoming.sendHello(true);
+      await incoming.acceptKey(body);
+      this.onTransport?.(incoming);
+    } else if (kind === FRAME_HELLO_REPLY) {
+      if (transport && !transport.open) await transport.acceptKey(body);
+    } else if (kind === FRAME_DATA) {
+      transport?.receiveData(body);
+    } else if (kind === FRAME_CLOSE) {
+      transport?.handleClosed();
+    }
+  }
+}
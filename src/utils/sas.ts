@@ -0,0 +1,60 @@
+// Short authentication strings. Each side of a WebRTC connection proves itself
+// with a DTLS certificate, and both certificate fingerprints are in the SDP. If
+// the signaling server swapped in its own certificates, the two screens would
+// see different fingerprints and so show different codes. Relay connections
+// use their ECDH keys the same way (see relayTransport.ts).
+
+import { toHex } from './sha256';
+import { Transport } from './transport';
+
+export interface SasSymbol {
+  emoji: string;
+  name: string;
+}
+
+export interface ShortAuthString {
+  // Stable for this pair of certificates; what a "verified" mark is attached to
+  key: string;
+  symbols: SasSymbol[];
+}
+
+const SAS_LENGTH = 7; // 6 bits each, 42 bits in all
+
+const SAS_SYMBOLS: SasSymbol[] = [
+  ['🐶', 'Dog'], ['🐱', 'Cat'], ['🦁', 'Lion'], ['🐎', 'Horse'],
+  ['🦄', 'Unicorn'], ['🐷', 'Pig'], ['🐘', 'Elephant'], ['🐰', 'Rabbit'],
+  ['🐼', 'Panda'], ['🐓', 'Rooster'], ['🐧', 'Penguin'], ['🐢', 'Turtle'],
+  ['🐟', 'Fish'], ['🐙', 'Octopus'], ['🦋', 'Butterfly'], ['🌷', 'Flower'],
+  ['🌳', 'Tree'], ['🌵', 'Cactus'], ['🍄', 'Mushroom'], ['🌏', 'Globe'],
+  ['🌙', 'Moon'], ['☁️', 'Cloud'], ['🔥', 'Fire'], ['🍌', 'Banana'],
+  ['🍎', 'Apple'], ['🍓', 'Strawberry'], ['🌽', 'Corn'], ['🍕', 'Pizza'],
+  ['🎂', 'Cake'], ['❤️', 'Heart'], ['😀', 'Smiley'], ['🤖', 'Robot'],
+  ['🎩', 'Hat'], ['👓', 'Glasses'], ['🔧', 'Spanner'], ['🎅', 'Santa'],
+  ['👍', 'Thumbs up'], ['☂️', 'Umbrella'], ['⌛', 'Hourglass'], ['⏰', 'Clock'],
+  ['🎁', 'Gift'], ['💡', 'Light bulb'], ['📕', 'Book'], ['✏️', 'Pencil'],
+  ['📎', 'Paperclip'], ['✂️', 'Scissors'], ['🔒', 'Lock'], ['🔑', 'Key'],
+  ['🔨', 'Hammer'], ['☎️', 'Telephone'], ['🏁', 'Flag'], ['🚂', 'Train'],
+  ['🚲', 'Bicycle'], ['✈️', 'Aeroplane'], ['🚀', 'Rocket'], ['🏆', 'Trophy'],
+  ['⚽', 'Ball'], ['🎸', 'Guitar'], ['🎺', 'Trumpet'], ['🔔', 'Bell'],
+  ['⚓', 'Anchor'], ['🎧', 'Headphones'], ['📁', 'Folder'], ['📌', 'Pin']
+].map(([emoji, name]) => ({ emoji, name }));
+
+// Resolves with null while the connection has no negotiated session to read from
+export async function deriveShortAuthString(connection: Transport): Promise<ShortAuthString | null> {
+  const fingerprints = connection.getFingerprints();
+  if (!fingerprints) return null;
+  const { local, remote } = fingerprints;
+
+  // Sorted so both sides hash the same input whichever end they're on
+  const input = ['zapdrop-sas-v1', ...[local, remote].sort()].join('\n');
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input)));
+
+  const symbols: SasSymbol[] = [];
+  for (let i = 0; i < SAS_LENGTH; i++) {
+    const bit = i * 6;
+    const pair = (digest[bit >> 3] << 8) | digest[(bit >> 3) + 1];
+    symbols.push(SAS_SYMBOLS[(pair >> (10 - (bit & 7))) & 0x3f]);
+  }
+
+  return { key: toHex(digest), symbols };
+}
@@ -0,0 +1,11 @@
+// Registers public/sw.js, which streams large received files to disk, keeps
+// the app available offline and receives files from the OS share sheet
+export function registerServiceWorker() {
+  if (!('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('sw.js').catch(err => {
+      console.error('Service worker registration failed:', err);
+    });
+  });
+}
@@ -0,0 +1,41 @@
+// Files and text shared to ZapDrop from the OS share sheet. public/sw.js
+// receives the share (share_target in manifest.webmanifest), parks it in a
+// cache and opens the app with ?shared=1, and the page takes it from there.
+
+const SHARE_CACHE = 'zapdrop-share';
+const SHARED_PARAM = 'shared';
+
+export interface SharedItems {
+  files: File[];
+  text: string;
+}
+
+// Empties the cache, so each share is only taken once
+export async function takeSharedItems(): Promise<SharedItems | null> {
+  const params = new URLSearchParams(window.location.search);
+  if (!params.has(SHARED_PARAM) || !('caches' in window)) return null;
+
+  // Before anything async, so a second call doesn't take the same share
+  params.delete(SHARED_PARAM);
+  const query = params.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+
+  const cache = await caches.open(SHARE_CACHE);
+  const files: File[] = [];
+  const texts: string[] = [];
+  for (const request of await cache.keys()) {
+    const response = await cache.match(request);
+    await cache.delete(request);
+    if (!response) continue;
+
+    if (request.url.endsWith('/text')) {
+      texts.push(await response.text());
+      continue;
+    }
+    const name = decodeURIComponent(response.headers.get('X-File-Name') ?? 'shared-file');
+    const lastModified = Number(response.headers.get('X-Last-Modified')) || Date.now();
+    const blob = await response.blob();
+    files.push(new File([blob], name, { type: blob.type, lastModified }));
+  }
+  return { files, text: texts.join('\n') };
+}
@@ -0,0 +1,211 @@
+// A small highlighter for text previews, picked by file extension. It only
+// knows comments, strings, numbers and keywords, which is enough to read code
+// by without shipping a full grammar for every language.
+
+export type TokenKind = 'plain' | 'comment' | 'string' | 'number' | 'keyword';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+// Patterns in priority order; the first to match at a position wins
+interface Language {
+  patterns: [TokenKind, string][];
+  ignoreCase?: boolean;
+}
+
+const words = (list: string) => String.raw`\b(?:${list.trim().split(/\s+/).join('|')})\b`;
+
+// Unterminated strings and block comments run to the end of the line or text
+const LINE_COMMENT = String.raw`\/\/[^\n]*`;
+const BLOCK_COMMENT = String.raw`\/\*[\s\S]*?(?:\*\/|$)`;
+const HASH_COMMENT = String.raw`#[^\n]*`;
+const DOUBLE_QUOTED = String.raw`"(?:[^"\\\n]|\\.)*"?`;
+const SINGLE_QUOTED = String.raw`'(?:[^'\\\n]|\\.)*'?`;
+const BACKTICK_QUOTED = String.raw`\`(?:[^\`\\]|\\.)*\`?`;
+const NUMBER = String.raw`\b(?:0x[\da-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)\b`;
+
+const C_LIKE: Language = {
+  patterns: [
+    ['comment', LINE_COMMENT],
+    ['comment', BLOCK_COMMENT],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['number', NUMBER],
+    ['keyword', words(`
+      if else for while do switch case default break continue return goto
+      class struct enum union interface trait impl type typedef namespace package import using module mod use
+      public private protected internal static const final readonly abstract override virtual extern
+      void int long short char float double bool boolean byte string var val let mut fn fun func def
+      new delete this self Self super null nullptr nil true false
+      try catch finally throw throws async await yield go defer chan select match where pub
+    `)]
+  ]
+};
+
+const JAVASCRIPT: Language = {
+  patterns: [
+    ['comment', LINE_COMMENT],
+    ['comment', BLOCK_COMMENT],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['string', BACKTICK_QUOTED],
+    ['number', NUMBER],
+    ['keyword', words(`
+      const let var function return if else for while do switch case default break continue
+      new class extends implements interface type enum namespace declare import export from as default
+      async await yield try catch finally throw typeof instanceof in of this super void delete
+      null undefined true false public private protected readonly static abstract
+    `)]
+  ]
+};
+
+const PYTHON: Language = {
+  patterns: [
+    ['comment', HASH_COMMENT],
+    ['string', String.raw`"""[\s\S]*?(?:"""|$)`],
+    ['string', String.raw`'''[\s\S]*?(?:'''|$)`],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['number', NUMBER],
+    ['keyword', words(`
+      def class return if elif else for while in not and or is import from as with
+      try except finally raise lambda yield pass break continue global nonlocal del assert
+      async await None True False self
+    `)]
+  ]
+};
+
+const RUBY: Language = {
+  patterns: [
+    ['comment', HASH_COMMENT],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['number', NUMBER],
+    ['keyword', words(`
+      def end class module if elsif else unless while until for in do return yield
+      begin rescue ensure raise require include attr_accessor nil true false self
+    `)]
+  ]
+};
+
+const SHELL: Language = {
+  patterns: [
+    ['comment', HASH_COMMENT],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['number', NUMBER],
+    ['keyword', words(`
+      if then else elif fi for while until do done case esac function in return
+      export local readonly echo exit set unset source
+    `)]
+  ]
+};
+
+const CONFIG: Language = {
+  patterns: [
+    ['comment', HASH_COMMENT],
+    ['comment', String.raw`(?<=^|\n)[ \t]*;[^\n]*`],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['number', NUMBER],
+    ['keyword', words('true false null yes no on off')]
+  ]
+};
+
+const JSON_LANGUAGE: Language = {
+  patterns: [
+    ['string', DOUBLE_QUOTED],
+    ['number', String.raw`-?${NUMBER}`],
+    ['keyword', words('true false null')]
+  ]
+};
+
+const SQL: Language = {
+  ignoreCase: true,
+  patterns: [
+    ['comment', String.raw`--[^\n]*`],
+    ['comment', BLOCK_COMMENT],
+    ['string', SINGLE_QUOTED],
+    ['number', NUMBER],
+    ['keyword', words(`
+      select from where insert into values update set delete create table view index drop alter add column
+      join left right inner outer full cross on using group by order having limit offset distinct union all
+      and or not null is in like between exists as case when then else end primary key foreign references
+      default unique begin commit rollback
+    `)]
+  ]
+};
+
+const MARKUP: Language = {
+  patterns: [
+    ['comment', String.raw`<!--[\s\S]*?(?:-->|$)`],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['keyword', String.raw`<\/?[A-Za-z][\w:.-]*|\/?>`]
+  ]
+};
+
+const CSS: Language = {
+  patterns: [
+    ['comment', BLOCK_COMMENT],
+    ['comment', LINE_COMMENT],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['number', String.raw`#[\da-fA-F]{3,8}\b|-?\b\d+(?:\.\d+)?(?:px|em|rem|vh|vw|%|s|ms|deg|fr)?`],
+    ['keyword', String.raw`@[\w-]+|!important`]
+  ]
+};
+
+const LANGUAGES: Record<string, Language> = {
+  js: JAVASCRIPT, mjs: JAVASCRIPT, cjs: JAVASCRIPT, jsx: JAVASCRIPT, ts: JAVASCRIPT, tsx: JAVASCRIPT,
+  c: C_LIKE, h: C_LIKE, cc: C_LIKE, cpp: C_LIKE, hpp: C_LIKE, cs: C_LIKE, java: C_LIKE, kt: C_LIKE,
+  swift: C_LIKE, go: C_LIKE, rs: C_LIKE, dart: C_LIKE, scala: C_LIKE, php: C_LIKE,
+  py: PYTHON, rb: RUBY,
+  sh: SHELL, bash: SHELL, zsh: SHELL,
+  yml: CONFIG, yaml: CONFIG, toml: CONFIG, ini: CONFIG, conf: CONFIG, env: CONFIG,
+  json: JSON_LANGUAGE, sql: SQL,
+  html: MARKUP, htm: MARKUP, xml: MARKUP, svg: MARKUP, vue: MARKUP,
+  css: CSS, scss: CSS, less: CSS
+};
+
+const compiled = new Map<Language, RegExp>();
+
+function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot + 1).toLowerCase();
+}
+
+export function canHighlight(fileName: string): boolean {
+  return getExtension(fileName) in LANGUAGES;
+}
+
+// Splits text into tokens; text in a language it doesn't know comes back as one plain token
+export function highlight(text: string, fileName: string): Token[] {
+  const language = LANGUAGES[getExtension(fileName)];
+  if (!language) return [{ kind: 'plain', text }];
+
+  let pattern = compiled.get(language);
+  if (!pattern) {
+    const source = language.patterns.map(([, regex]) => `(${regex})`).join('|');
+    pattern = new RegExp(source, language.ignoreCase ? 'gi' : 'g');
+    compiled.set(language, pattern);
+  }
+
+  const tokens: Token[] = [];
+  let last = 0;
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    if (match[0] === '') {
+      pattern.lastIndex++;
+      continue;
+    }
+    if (match.index > last) tokens.push({ kind: 'plain', text: text.slice(last, match.index) });
+    const group = match.findIndex((value, i) => i > 0 && value !== undefined);
+    tokens.push({ kind: language.patterns[group - 1][0], text: match[0] });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) tokens.push({ kind: 'plain', text: text.slice(last) });
+  return tokens;
+}
@@ -0,0 +1,94 @@
+// Small previews that travel with a file offer, so the receiver can see what's
+// coming before accepting it. Images are scaled down; videos get a frame from
+// near the start.
+
+const THUMBNAIL_SIZE = 96;
+const THUMBNAIL_QUALITY = 0.7;
+// Videos the browser can't play give up rather than leave the thumbnail hanging
+const VIDEO_FRAME_TIMEOUT_MS = 5000;
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read thumbnail'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+// A frame a tenth of the way in, at most a second, so it's rarely the black first frame
+function grabVideoFrame(file: File): Promise<ImageBitmap> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    const finish = () => {
+      clearTimeout(timer);
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    };
+    const timer = setTimeout(() => {
+      finish();
+      reject(new Error('Video took too long to load'));
+    }, VIDEO_FRAME_TIMEOUT_MS);
+
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => {
+      video.currentTime = Number.isFinite(video.duration) ? Math.min(1, video.duration / 10) : 0;
+    };
+    video.onseeked = () => {
+      createImageBitmap(video).then(
+        bitmap => {
+          finish();
+          resolve(bitmap);
+        },
+        err => {
+          finish();
+          reject(err);
+        }
+      );
+    };
+    video.onerror = () => {
+      finish();
+      reject(video.error ?? new Error('Could not load video'));
+    };
+    video.src = url;
+  });
+}
+
+// Returns a JPEG data URL, or undefined for files we can't draw
+export async function createThumbnail(file: File): Promise<string | undefined> {
+  const isImage = file.type.startsWith('image/');
+  const isVideo = file.type.startsWith('video/');
+  if ((!isImage && !isVideo) || typeof createImageBitmap !== 'function') {
+    return undefined;
+  }
+
+  try {
+    const bitmap = isVideo ? await grabVideoFrame(file) : await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    let blob: Blob | null;
+    if (typeof OffscreenCanvas !== 'undefined') {
+      const canvas = new OffscreenCanvas(width, height);
+      canvas.getContext('2d')?.drawImage(bitmap, 0, 0, width, height);
+      blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: THUMBNAIL_QUALITY });
+    } else {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      canvas.getContext('2d')?.drawImage(bitmap, 0, 0, width, height);
+      blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', THUMBNAIL_QUALITY));
+    }
+    bitmap.close();
+
+    return blob ? await blobToDataUrl(blob) : undefined;
+  } catch {
+    // Formats the browser can't decode (HEIC on most desktops, for one) just go without
+    return undefined;
+  }
+}
@@ -0,0 +1,67 @@
+// Bytes, speed and time left for one transfer, as it goes
+
+export interface TransferStats {
+  // Bytes the receiver holds, counting any it had from an earlier attempt
+  bytesTransferred: number;
+  totalBytes: number;
+  // Bytes per second over the last few seconds, and since this attempt started
+  throughput: number;
+  averageThroughput: number;
+  // Seconds left at the current speed, null until there is a speed to go by
+  eta: number | null;
+  // Bytes on the wire over original bytes, for compressed transfers (see compression.ts)
+  compressionRatio?: number;
+}
+
+// How far back the current speed looks
+const WINDOW_MS = 3000;
+
+export class TransferMeter {
+  private startedAt = performance.now();
+  private moved = 0;
+  private done: number;
+  // (time, bytes moved) pairs inside the window, oldest first
+  private samples: Array<[number, number]> = [];
+
+  constructor(private totalBytes: number, alreadyDone = 0) {
+    this.done = alreadyDone;
+    this.samples.push([this.startedAt, 0]);
+  }
+
+  // Bytes that went over the connection
+  add(bytes: number): TransferStats {
+    const now = performance.now();
+    this.moved += bytes;
+    this.done += bytes;
+    this.samples.push([now, this.moved]);
+    while (this.samples.length > 2 && now - this.samples[1][0] > WINDOW_MS) this.samples.shift();
+    return this.stats(now);
+  }
+
+  // Bytes that didn't need sending, because the receiver already had them
+  skip(bytes: number) {
+    this.done += bytes;
+  }
+
+  // Starts timing over, e.g. after a pause that would otherwise drag the speed down
+  restart() {
+    const now = performance.now();
+    this.startedAt = now;
+    this.moved = 0;
+    this.samples = [[now, 0]];
+  }
+
+  private stats(now: number): TransferStats {
+    const [oldestAt, oldestMoved] = this.samples[0];
+    const throughput = now > oldestAt ? (this.moved - oldestMoved) / ((now - oldestAt) / 1000) : 0;
+    const averageThroughput = now > this.startedAt ? this.moved / ((now - this.startedAt) / 1000) : 0;
+    const remaining = Math.max(this.totalBytes - this.done, 0);
+    return {
+      bytesTransferred: this.done,
+      totalBytes: this.totalBytes,
+      throughput,
+      averageThroughput,
+      eta: throughput > 0 ? remaining / throughput : null
+    };
+  }
+}
@@ -0,0 +1,142 @@
+// IndexedDB records of partially received files, so a transfer can pick up
+// where it left off after a page reload. The data itself lives in the
+// transfer's storage backend (see receiveStorage.ts). The same database holds
+// the transfer history (historyStore.ts) and this device's identity and
+// trusted devices (deviceIdentity.ts).
+
+import type { StorageKind } from './receiveStorage';
+
+const DB_NAME = 'zapdrop';
+const DB_VERSION = 4;
+const TRANSFERS_STORE = 'partialTransfers';
+export const HISTORY_STORE = 'transferHistory';
+export const IDENTITY_STORE = 'identity';
+export const TRUSTED_DEVICES_STORE = 'trustedDevices';
+// Chunk data was kept in IndexedDB before storage backends existed
+const LEGACY_CHUNKS_STORE = 'partialChunks';
+
+// Partials nobody came back for are dropped after a week
+const STALE_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface PartialTransfer {
+  fileKey: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  totalChunks: number;
+  storage: StorageKind;
+  received: Uint8Array; // chunk bitmap, see createChunkBitmap
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (db.objectStoreNames.contains(LEGACY_CHUNKS_STORE)) {
+          db.deleteObjectStore(LEGACY_CHUNKS_STORE);
+          // Old records have no storage backend to resume from
+          db.deleteObjectStore(TRANSFERS_STORE);
+        }
+        if (!db.objectStoreNames.contains(TRANSFERS_STORE)) {
+          db.createObjectStore(TRANSFERS_STORE, { keyPath: 'fileKey' });
+        }
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(IDENTITY_STORE)) {
+          db.createObjectStore(IDENTITY_STORE);
+        }
+        if (!db.objectStoreNames.contains(TRUSTED_DEVICES_STORE)) {
+          db.createObjectStore(TRUSTED_DEVICES_STORE, { keyPath: 'peerId' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Failed to open IndexedDB'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+export async function getPartialTransfer(fileKey: string): Promise<PartialTransfer | undefined> {
+  const db = await openDatabase();
+  const tx = db.transaction(TRANSFERS_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(TRANSFERS_STORE).get(fileKey));
+}
+
+export async function savePartialTransfer(transfer: PartialTransfer): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(TRANSFERS_STORE, 'readwrite');
+  tx.objectStore(TRANSFERS_STORE).put(transfer);
+  await transactionDone(tx);
+}
+
+export async function deletePartialTransfer(fileKey: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(TRANSFERS_STORE, 'readwrite');
+  tx.objectStore(TRANSFERS_STORE).delete(fileKey);
+  await transactionDone(tx);
+}
+
+// Deletes stale records and returns the ones still worth resuming
+export async function pruneStalePartialTransfers(): Promise<PartialTransfer[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(TRANSFERS_STORE, 'readonly');
+  const transfers = await requestToPromise(tx.objectStore(TRANSFERS_STORE).getAll()) as PartialTransfer[];
+  const cutoff = Date.now() - STALE_AFTER_MS;
+
+  const kept: PartialTransfer[] = [];
+  for (const transfer of transfers) {
+    if (transfer.updatedAt < cutoff) {
+      await deletePartialTransfer(transfer.fileKey);
+    } else {
+      kept.push(transfer);
+    }
+  }
+  return kept;
+}
+
+// Chunk bitmaps: bit i is set when chunk i has been received
+export function createChunkBitmap(totalChunks: number, indexes: number[] = []): Uint8Array {
+  const bitmap = new Uint8Array(Math.ceil(totalChunks / 8));
+  for (const index of indexes) {
+    bitmap[index >> 3] |= 1 << (index & 7);
+  }
+  return bitmap;
+}
+
+export function hasChunk(bitmap: Uint8Array, index: number): boolean {
+  return (bitmap[index >> 3] & (1 << (index & 7))) !== 0;
+}
+
+export function setChunk(bitmap: Uint8Array, index: number, received = true) {
+  if (received) {
+    bitmap[index >> 3] |= 1 << (index & 7);
+  } else {
+    bitmap[index >> 3] &= ~(1 << (index & 7));
+  }
+}
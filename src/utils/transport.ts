@@ -0,0 +1,184 @@
+// What the file transfer protocol and the rest of the app need from a link to
+// another device. PeerTransport wraps a PeerJS DataConnection, RelayTransport
+// (relayTransport.ts) goes through a WebSocket relay when WebRTC can't get
+// through, and createTransportPair links two in memory, for running the
+// protocol without a network.
+
+import { DataConnection } from 'peerjs';
+
+export type TransportKind = 'webrtc' | 'relay' | 'memory';
+
+export interface Transport {
+  readonly kind: TransportKind;
+  // The other device's peer ID
+  readonly peer: string;
+  readonly open: boolean;
+  // Bytes sent but not handed to the network yet
+  readonly bufferedAmount: number;
+  send(message: unknown): void;
+  // Each returns a function that removes the listener again
+  onMessage(listener: (message: unknown) => void): () => void;
+  onClose(listener: () => void): () => void;
+  // Called when bufferedAmount drops to threshold or below
+  onBufferedAmountLow(threshold: number, listener: () => void): () => void;
+  // With flush, whatever is queued goes out first
+  close(options?: { flush?: boolean }): void;
+  // Fingerprints of the keys securing each end, for verification codes (see sas.ts)
+  getFingerprints(): { local: string; remote: string } | null;
+  // The WebRTC connection underneath, for stats; only PeerTransport has one
+  readonly peerConnection?: RTCPeerConnection;
+}
+
+function getSdpFingerprint(sdp: string | undefined): string | null {
+  const match = sdp?.match(/^a=fingerprint:(\S+) ([0-9A-Fa-f:]+)/m);
+  return match ? `${match[1].toLowerCase()} ${match[2].toUpperCase()}` : null;
+}
+
+export class PeerTransport implements Transport {
+  readonly kind = 'webrtc';
+
+  constructor(readonly connection: DataConnection) {}
+
+  get peer(): string {
+    return this.connection.peer;
+  }
+
+  get open(): boolean {
+    return this.connection.open;
+  }
+
+  // PeerJS only holds messages back itself once the data channel has 8MB queued,
+  // which ChunkSizer keeps the sender under, so the channel's count is the whole of it
+  get bufferedAmount(): number {
+    return this.connection.dataChannel?.bufferedAmount ?? 0;
+  }
+
+  get peerConnection(): RTCPeerConnection {
+    return this.connection.peerConnection;
+  }
+
+  send(message: unknown) {
+    this.connection.send(message);
+  }
+
+  onMessage(listener: (message: unknown) => void): () => void {
+    this.connection.on('data', listener);
+    return () => this.connection.off('data', listener);
+  }
+
+  onClose(listener: () => void): () => void {
+    this.connection.on('close', listener);
+    return () => this.connection.off('close', listener);
+  }
+
+  // The event can be missed around a send, so callers should check again
+  // after a while if bufferedAmount is still high (see waitForDrain)
+  onBufferedAmountLow(threshold: number, listener: () => void): () => void {
+    const channel = this.connection.dataChannel;
+    if (!channel) return () => {};
+    channel.bufferedAmountLowThreshold = threshold;
+    channel.addEventListener('bufferedamountlow', listener);
+    return () => channel.removeEventListener('bufferedamountlow', listener);
+  }
+
+  close(options?: { flush?: boolean }) {
+    this.connection.close(options);
+  }
+
+  // The DTLS certificate fingerprints both sides put in their SDP
+  getFingerprints(): { local: string; remote: string } | null {
+    const pc = this.connection.peerConnection;
+    const local = getSdpFingerprint(pc?.localDescription?.sdp);
+    const remote = getSdpFingerprint(pc?.remoteDescription?.sdp);
+    return local && remote ? { local, remote } : null;
+  }
+}
+
+// Resolves once no more than limit bytes are queued on the transport
+export function waitForDrain(transport: Transport, limit: number): Promise<void> {
+  if (transport.bufferedAmount <= limit) return Promise.resolve();
+  const lowThreshold = Math.floor(limit / 4);
+
+  return new Promise((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      stopLow();
+      stopClose();
+    };
+    const check = () => {
+      clearTimeout(timer);
+      if (transport.bufferedAmount <= limit) {
+        cleanup();
+        resolve();
+      } else {
+        // The low event may not come again, e.g. when the rest sits in PeerJS's own queue
+        timer = setTimeout(check, 50);
+      }
+    };
+    const stopLow = transport.onBufferedAmountLow(lowThreshold, check);
+    const stopClose = transport.onClose(() => {
+      cleanup();
+      reject(new Error('Connection closed while sending'));
+    });
+    check();
+  });
+}
+
+class MemoryTransport implements Transport {
+  readonly kind = 'memory';
+  readonly bufferedAmount = 0;
+  open = true;
+  other: MemoryTransport | null = null;
+  private messageListeners = new Set<(message: unknown) => void>();
+  private closeListeners = new Set<() => void>();
+
+  constructor(readonly peer: string, private fingerprints: { local: string; remote: string }) {}
+
+  send(message: unknown) {
+    if (!this.open) throw new Error('Transport is closed');
+    // Copied like a real network would, and delivered later like one would
+    const copy = structuredClone(message);
+    const other = this.other;
+    setTimeout(() => {
+      if (other?.open) other.messageListeners.forEach(listener => listener(copy));
+    });
+  }
+
+  onMessage(listener: (message: unknown) => void): () => void {
+    this.messageListeners.add(listener);
+    return () => this.messageListeners.delete(listener);
+  }
+
+  onClose(listener: () => void): () => void {
+    this.closeListeners.add(listener);
+    return () => this.closeListeners.delete(listener);
+  }
+
+  // Nothing is ever queued
+  onBufferedAmountLow(): () => void {
+    return () => {};
+  }
+
+  close() {
+    for (const end of [this, this.other]) {
+      if (!end?.open) continue;
+      end.open = false;
+      setTimeout(() => end.closeListeners.forEach(listener => listener()));
+    }
+  }
+
+  getFingerprints() {
+    return this.fingerprints;
+  }
+}
+
+// Two connected ends: the first is peerA's view of peerB, the second peerB's view of peerA
+export function createTransportPair(peerA: string, peerB: string): [Transport, Transport] {
+  const a = new MemoryTransport(peerB, { local: `memory ${peerA}`, remote: `memory ${peerB}` });
+  const b = new MemoryTransport(peerA, { local: `memory ${peerB}`, remote: `memory ${peerA}` });
+  a.other = b;
+  b.other = a;
+  return [a, b];
+}
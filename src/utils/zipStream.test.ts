@@ -0,0 +1,232 @@
+import { describe, expect, it } from 'vitest';
+import { StorageError, StorageTarget } from './receiveStorage';
+import { Sha256, toHex } from './sha256';
+import { ZipArchive, ZipSink } from './zipStream';
+
+// Keeps everything written, as one archive once closed
+class CollectingSink implements ZipSink {
+  private parts: Uint8Array[] = [];
+  bytes = new Uint8Array(0);
+
+  async ready(): Promise<void> {}
+
+  write(data: Uint8Array) {
+    this.parts.push(data.slice());
+  }
+
+  async close(): Promise<null> {
+    const size = this.parts.reduce((sum, part) => sum + part.length, 0);
+    this.bytes = new Uint8Array(size);
+    let offset = 0;
+    for (const part of this.parts) {
+      this.bytes.set(part, offset);
+      offset += part.length;
+    }
+    return null;
+  }
+}
+
+function target(transferId: string, relativePath: string, fileSize: number): StorageTarget {
+  return {
+    transferId,
+    fileKey: transferId,
+    fileName: relativePath.slice(relativePath.lastIndexOf('/') + 1),
+    relativePath,
+    fileType: 'text/plain',
+    fileSize
+  };
+}
+
+function sha256(bytes: Uint8Array): string {
+  const hasher = new Sha256();
+  hasher.update(bytes);
+  return toHex(hasher.digest());
+}
+
+function buffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.slice().buffer;
+}
+
+function closed(archive: ZipArchive): Promise<number> {
+  return new Promise((resolve, reject) => {
+    archive.onClose = (_file, entries) => resolve(entries);
+    archive.onError = reject;
+  });
+}
+
+function readName(bytes: Uint8Array, offset: number, length: number): string {
+  return new TextDecoder().decode(bytes.subarray(offset, offset + length));
+}
+
+function readU64(view: DataView, offset: number): number {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+}
+
+const HELLO = new TextEncoder().encode('hello world');
+const FOX = new TextEncoder().encode('The quick brown fox jumps over the lazy dog');
+// Well-known CRC-32 values of the two strings
+const HELLO_CRC = 0x0d4a1185;
+const FOX_CRC = 0x414fa339;
+
+describe('ZipArchive', () => {
+  it('writes entries in order however their chunks arrive', async () => {
+    const sink = new CollectingSink();
+    const archive = new ZipArchive('docs.zip', sink, ['a', 'b']);
+    const done = closed(archive);
+
+    const a = archive.createEntry(target('a', 'docs/a.txt', HELLO.length));
+    const b = archive.createEntry(target('b', 'docs/sub/b.txt', FOX.length));
+
+    // The second file arrives first, and back to front
+    await b.write(10, buffer(FOX.subarray(10)));
+    await b.write(0, buffer(FOX.subarray(0, 10)));
+    await b.finish(sha256(FOX));
+    await a.write(5, buffer(HELLO.subarray(5)));
+    await a.write(0, buffer(HELLO.subarray(0, 5)));
+    await a.finish(sha256(HELLO));
+
+    expect(await done).toBe(2);
+    const bytes = sink.bytes;
+    const view = new DataView(bytes.buffer);
+
+    // Local headers, each followed by the data and a data descriptor
+    const expected = [
+      { name: 'docs/a.txt', data: HELLO, crc: HELLO_CRC },
+      { name: 'docs/sub/b.txt', data: FOX, crc: FOX_CRC }
+    ];
+    const offsets: number[] = [];
+    let offset = 0;
+    for (const entry of expected) {
+      offsets.push(offset);
+      expect(view.getUint32(offset, true)).toBe(0x04034b50);
+      expect(view.getUint16(offset + 4, true)).toBe(20);
+      expect(view.getUint16(offset + 6, true)).toBe(0x0808);
+      expect(view.getUint16(offset + 8, true)).toBe(0); // stored
+      expect(view.getUint32(offset + 14, true)).toBe(0); // CRC and sizes come after the data
+      const nameLength = view.getUint16(offset + 26, true);
+      expect(view.getUint16(offset + 28, true)).toBe(0);
+      expect(readName(bytes, offset + 30, nameLength)).toBe(entry.name);
+
+      const dataStart = offset + 30 + nameLength;
+      expect(bytes.subarray(dataStart, dataStart + entry.data.length)).toEqual(entry.data);
+
+      const descriptor = dataStart + entry.data.length;
+      expect(view.getUint32(descriptor, true)).toBe(0x08074b50);
+      expect(view.getUint32(descriptor + 4, true)).toBe(entry.crc);
+      expect(view.getUint32(descriptor + 8, true)).toBe(entry.data.length);
+      expect(view.getUint32(descriptor + 12, true)).toBe(entry.data.length);
+      offset = descriptor + 16;
+    }
+
+    // Central directory, pointing back at the local headers
+    const centralStart = offset;
+    for (const [i, entry] of expected.entries()) {
+      expect(view.getUint32(offset, true)).toBe(0x02014b50);
+      expect(view.getUint16(offset + 8, true)).toBe(0x0808);
+      expect(view.getUint32(offset + 16, true)).toBe(entry.crc);
+      expect(view.getUint32(offset + 20, true)).toBe(entry.data.length);
+      expect(view.getUint32(offset + 24, true)).toBe(entry.data.length);
+      const nameLength = view.getUint16(offset + 28, true);
+      const extraLength = view.getUint16(offset + 30, true);
+      expect(extraLength).toBe(0);
+      expect(view.getUint32(offset + 42, true)).toBe(offsets[i]);
+      expect(readName(bytes, offset + 46, nameLength)).toBe(entry.name);
+      offset += 46 + nameLength;
+    }
+
+    // End of central directory, and nothing after it
+    expect(view.getUint32(offset, true)).toBe(0x06054b50);
+    expect(view.getUint16(offset + 8, true)).toBe(2);
+    expect(view.getUint16(offset + 10, true)).toBe(2);
+    expect(view.getUint32(offset + 12, true)).toBe(offset - centralStart);
+    expect(view.getUint32(offset + 16, true)).toBe(centralStart);
+    expect(offset + 22).toBe(bytes.length);
+  });
+
+  it('leaves a failed or skipped file out of the central directory', async () => {
+    const sink = new CollectingSink();
+    const archive = new ZipArchive('docs.zip', sink, ['a', 'b', 'c']);
+    const done = closed(archive);
+
+    const a = archive.createEntry(target('a', 'docs/a.txt', HELLO.length));
+    await a.write(0, buffer(HELLO));
+    await expect(a.finish(sha256(FOX))).rejects.toThrow('Hash mismatch');
+    archive.skip('b');
+    const c = archive.createEntry(target('c', 'docs/c.txt', FOX.length));
+    await c.write(0, buffer(FOX));
+    await c.finish(sha256(FOX));
+
+    expect(await done).toBe(1);
+    const view = new DataView(sink.bytes.buffer);
+    const end = sink.bytes.length - 22;
+    expect(view.getUint16(end + 10, true)).toBe(1);
+    const central = view.getUint32(end + 16, true);
+    expect(readName(sink.bytes, central + 46, view.getUint16(central + 28, true))).toBe('docs/c.txt');
+  });
+
+  it('gives a file of 4GB or more a ZIP64 local header', async () => {
+    const sink = new CollectingSink();
+    const archive = new ZipArchive('big.zip', sink, ['big']);
+    const done = closed(archive);
+
+    const size = 5 * 1024 ** 3;
+    const entry = archive.createEntry(target('big', 'videos/big.mov', size));
+    // The header goes out as soon as the entry is first in line; dropping it closes an empty archive
+    await entry.discard();
+    expect(await done).toBe(0);
+
+    const view = new DataView(sink.bytes.buffer);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(4, true)).toBe(45);
+    expect(view.getUint32(18, true)).toBe(0xffffffff);
+    expect(view.getUint32(22, true)).toBe(0xffffffff);
+    const nameLength = view.getUint16(26, true);
+    expect(view.getUint16(28, true)).toBe(20);
+    const extra = 30 + nameLength;
+    expect(view.getUint16(extra, true)).toBe(0x0001);
+    expect(view.getUint16(extra + 2, true)).toBe(16);
+  });
+
+  it('adds ZIP64 end records once there are too many entries for the classic ones', async () => {
+    const count = 0xffff;
+    const ids = Array.from({ length: count }, (_, i) => String(i));
+    const sink = new CollectingSink();
+    const archive = new ZipArchive('many.zip', sink, ids);
+    const done = closed(archive);
+
+    const emptyHash = sha256(new Uint8Array(0));
+    for (const id of ids) {
+      await archive.createEntry(target(id, `many/${id}.txt`, 0)).finish(emptyHash);
+    }
+    expect(await done).toBe(count);
+
+    const bytes = sink.bytes;
+    const view = new DataView(bytes.buffer);
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(0xffff);
+
+    const locator = end - 20;
+    expect(view.getUint32(locator, true)).toBe(0x07064b50);
+    const zip64End = readU64(view, locator + 8);
+    expect(zip64End).toBe(locator - 56);
+    expect(view.getUint32(zip64End, true)).toBe(0x06064b50);
+    expect(readU64(view, zip64End + 24)).toBe(count);
+    expect(readU64(view, zip64End + 32)).toBe(count);
+
+    const centralSize = readU64(view, zip64End + 40);
+    const centralStart = readU64(view, zip64End + 48);
+    expect(centralStart + centralSize).toBe(zip64End);
+    expect(view.getUint32(centralStart, true)).toBe(0x02014b50);
+    expect(view.getUint32(centralStart + 42, true)).toBe(0);
+  });
+
+  it('fails writes once the download is cancelled', async () => {
+    const sink = new CollectingSink();
+    sink.ready = () => Promise.reject(new StorageError('The download of docs.zip was cancelled'));
+    const archive = new ZipArchive('docs.zip', sink, ['a']);
+
+    const a = archive.createEntry(target('a', 'docs/a.txt', HELLO.length));
+    await expect(a.write(0, buffer(HELLO))).rejects.toBeInstanceOf(StorageError);
+  });
+});
@@ -0,0 +1,416 @@
+// Packs received folders into a single ZIP download, written front to back as
+// the files arrive. Entries are stored uncompressed with their CRC and sizes in
+// a data descriptor after the data, and ZIP64 records kick in past 4GB.
+
+import { Sha256, toHex } from './sha256';
+import {
+  DownloadAllowance,
+  IntegrityError,
+  MEMORY_STORAGE_LIMIT,
+  ReceiveStorage,
+  StorageError,
+  StorageTarget,
+  openServiceWorkerDownload,
+  supportsServiceWorkerDownload
+} from './receiveStorage';
+import { sanitizeRelativePath } from './folders';
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function updateCrc32(crc: number, data: Uint8Array): number {
+  let c = crc ^ MAX_32;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ MAX_32) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+// Little-endian record builder
+class RecordWriter {
+  private bytes: number[] = [];
+
+  u16(value: number) {
+    this.bytes.push(value & 0xff, (value >>> 8) & 0xff);
+    return this;
+  }
+
+  u32(value: number) {
+    this.u16(value & MAX_16).u16((value >>> 16) & MAX_16);
+    return this;
+  }
+
+  u64(value: number) {
+    return this.u32(value % 0x100000000).u32(Math.floor(value / 0x100000000));
+  }
+
+  raw(data: Uint8Array) {
+    this.bytes.push(...data);
+    return this;
+  }
+
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+// Where the archive's bytes go
+export interface ZipSink {
+  // Resolves once the sink has room for more; throws a StorageError if the download was cancelled
+  ready(): Promise<void>;
+  write(data: Uint8Array): void;
+  // Resolves with the archive where the app can still read it, or null once it's with the browser
+  close(): Promise<File | null>;
+}
+
+class ServiceWorkerSink implements ZipSink {
+  private allowance: DownloadAllowance;
+
+  constructor(private port: MessagePort, fileName: string) {
+    this.allowance = new DownloadAllowance(port, fileName);
+  }
+
+  ready(): Promise<void> {
+    return this.allowance.wait();
+  }
+
+  write(data: Uint8Array) {
+    const buffer = data.slice().buffer;
+    this.allowance.spend(buffer.byteLength);
+    this.port.postMessage({ type: 'chunk', data: buffer }, [buffer]);
+  }
+
+  async close(): Promise<null> {
+    this.port.postMessage({ type: 'end' });
+    this.port.close();
+    if (this.allowance.cancelled) {
+      throw new StorageError('The download was cancelled');
+    }
+    return null;
+  }
+}
+
+class MemorySink implements ZipSink {
+  private parts: ArrayBuffer[] = [];
+
+  constructor(private fileName: string) {}
+
+  async ready(): Promise<void> {}
+
+  write(data: Uint8Array) {
+    this.parts.push(data.slice().buffer);
+  }
+
+  async close(): Promise<File> {
+    const file = new File(this.parts, this.fileName, { type: 'application/zip' });
+    this.parts = [];
+    return file;
+  }
+}
+
+// Streams through the service worker where there is one, otherwise builds the archive
+// in memory, which is held to the same limit as a single file
+export async function createZipSink(fileName: string, totalSize: number): Promise<ZipSink> {
+  if (supportsServiceWorkerDownload()) {
+    try {
+      return new ServiceWorkerSink(await openServiceWorkerDownload(fileName, 'application/zip'), fileName);
+    } catch (err) {
+      console.error('Service worker download unavailable:', err);
+    }
+  }
+  if (totalSize > MEMORY_STORAGE_LIMIT) {
+    throw new StorageError(`${fileName} is too large to receive in this browser`);
+  }
+  return new MemorySink(fileName);
+}
+
+interface ZipEntry {
+  transferId: string;
+  name: Uint8Array;
+  size: number;
+  zip64: boolean;
+  // Data that arrived while an earlier entry was still being written
+  queued: Uint8Array[];
+  crc: number;
+  offset: number;
+  started: boolean;
+  done: boolean;
+}
+
+interface CentralRecord {
+  name: Uint8Array;
+  size: number;
+  crc: number;
+  offset: number;
+}
+
+export class ZipArchive {
+  private entries: ZipEntry[] = [];
+  private records: CentralRecord[] = [];
+  // transferIds the archive is still waiting to hear from
+  private expected: Set<string>;
+  private offset = 0;
+  private stamp = dosDateTime(new Date());
+  private closed = false;
+
+  // Called once every expected entry has been written or skipped
+  public onClose: ((file: File | null, entries: number) => void) | null = null;
+  public onError: ((error: Error) => void) | null = null;
+
+  constructor(public readonly fileName: string, private sink: ZipSink, transferIds: string[]) {
+    this.expected = new Set(transferIds);
+  }
+
+  createEntry(target: StorageTarget): ReceiveStorage {
+    const path = sanitizeRelativePath(target.relativePath ?? target.fileName).join('/') || target.fileName;
+    const entry: ZipEntry = {
+      transferId: target.transferId,
+      name: new TextEncoder().encode(path),
+      size: target.fileSize,
+      zip64: target.fileSize >= MAX_32,
+      queued: [],
+      crc: 0,
+      offset: 0,
+      started: false,
+      done: false
+    };
+    this.entries.push(entry);
+    this.advance();
+    return new ZipEntryStorage(this, entry, target);
+  }
+
+  // For transfers that failed or went to other storage, so the archive doesn't wait on them
+  skip(transferId: string) {
+    const index = this.entries.findIndex(e => e.transferId === transferId);
+    if (index >= 0 && !this.entries[index].done) {
+      this.dropEntry(this.entries[index]);
+    }
+    this.expected.delete(transferId);
+    this.maybeClose();
+  }
+
+  // Waits while the download is behind; throws once it's been cancelled
+  ready(): Promise<void> {
+    return this.sink.ready();
+  }
+
+  // Entry data, in order
+  push(entry: ZipEntry, data: Uint8Array) {
+    if (this.closed) return;
+    entry.crc = updateCrc32(entry.crc, data);
+    if (this.entries[0] === entry && entry.started) {
+      this.emit(data);
+    } else {
+      entry.queued.push(data);
+    }
+  }
+
+  finishEntry(entry: ZipEntry) {
+    entry.done = true;
+    this.advance();
+  }
+
+  dropEntry(entry: ZipEntry) {
+    // Bytes already streamed stay in the file, but without a central directory record
+    // unzip tools never see them
+    const index = this.entries.indexOf(entry);
+    if (index >= 0) this.entries.splice(index, 1);
+    this.expected.delete(entry.transferId);
+    this.advance();
+    this.maybeClose();
+  }
+
+  private emit(data: Uint8Array) {
+    this.sink.write(data);
+    this.offset += data.length;
+  }
+
+  // Writes out the head of the queue for as long as it can
+  private advance() {
+    while (!this.closed && this.entries.length > 0) {
+      const entry = this.entries[0];
+      if (!entry.started) {
+        entry.started = true;
+        entry.offset = this.offset;
+        this.emit(this.localHeader(entry));
+      }
+      for (const data of entry.queued) {
+        this.emit(data);
+      }
+      entry.queued = [];
+      if (!entry.done) return;
+
+      this.emit(this.dataDescriptor(entry));
+      this.records.push({ name: entry.name, size: entry.size, crc: entry.crc, offset: entry.offset });
+      this.entries.shift();
+      this.expected.delete(entry.transferId);
+    }
+    this.maybeClose();
+  }
+
+  private maybeClose() {
+    if (this.closed || this.expected.size > 0 || this.entries.length > 0) return;
+    this.closed = true;
+
+    this.emit(this.centralDirectory());
+    this.sink.close()
+      .then(file => this.onClose?.(file, this.records.length))
+      .catch(err => this.onError?.(err instanceof Error ? err : new Error('Failed to save archive')));
+  }
+
+  private localHeader(entry: ZipEntry): Uint8Array {
+    const writer = new RecordWriter()
+      .u32(0x04034b50)
+      .u16(entry.zip64 ? 45 : 20)
+      .u16(0x0808) // sizes in data descriptor, UTF-8 names
+      .u16(0) // stored
+      .u16(this.stamp.time)
+      .u16(this.stamp.date)
+      .u32(0)
+      .u32(entry.zip64 ? MAX_32 : 0)
+      .u32(entry.zip64 ? MAX_32 : 0)
+      .u16(entry.name.length)
+      .u16(entry.zip64 ? 20 : 0)
+      .raw(entry.name);
+    if (entry.zip64) {
+      writer.u16(0x0001).u16(16).u64(0).u64(0);
+    }
+    return writer.toBytes();
+  }
+
+  private dataDescriptor(entry: ZipEntry): Uint8Array {
+    const writer = new RecordWriter().u32(0x08074b50).u32(entry.crc);
+    return entry.zip64
+      ? writer.u64(entry.size).u64(entry.size).toBytes()
+      : writer.u32(entry.size).u32(entry.size).toBytes();
+  }
+
+  private centralDirectory(): Uint8Array {
+    const start = this.offset;
+    const writer = new RecordWriter();
+
+    for (const record of this.records) {
+      const bigSize = record.size >= MAX_32;
+      const bigOffset = record.offset >= MAX_32;
+      const extra = new RecordWriter();
+      if (bigSize) extra.u64(record.size).u64(record.size);
+      if (bigOffset) extra.u64(record.offset);
+      const extraBytes = extra.toBytes();
+
+      writer
+        .u32(0x02014b50)
+        .u16(45)
+        .u16(bigSize || bigOffset ? 45 : 20)
+        .u16(0x0808)
+        .u16(0)
+        .u16(this.stamp.time)
+        .u16(this.stamp.date)
+        .u32(record.crc)
+        .u32(bigSize ? MAX_32 : record.size)
+        .u32(bigSize ? MAX_32 : record.size)
+        .u16(record.name.length)
+        .u16(extraBytes.length > 0 ? extraBytes.length + 4 : 0)
+        .u16(0) // comment
+        .u16(0) // disk
+        .u16(0) // internal attributes
+        .u32(0) // external attributes
+        .u32(bigOffset ? MAX_32 : record.offset)
+        .raw(record.name);
+      if (extraBytes.length > 0) {
+        writer.u16(0x0001).u16(extraBytes.length).raw(extraBytes);
+      }
+    }
+
+    const size = writer.toBytes().length;
+    const count = this.records.length;
+    if (count >= MAX_16 || size >= MAX_32 || start >= MAX_32) {
+      const zip64End = start + size;
+      writer
+        .u32(0x06064b50)
+        .u64(44)
+        .u16(45)
+        .u16(45)
+        .u32(0)
+        .u32(0)
+        .u64(count)
+        .u64(count)
+        .u64(size)
+        .u64(start)
+        .u32(0x07064b50)
+        .u32(0)
+        .u64(zip64End)
+        .u32(1);
+    }
+
+    writer
+      .u32(0x06054b50)
+      .u16(0)
+      .u16(0)
+      .u16(Math.min(count, MAX_16))
+      .u16(Math.min(count, MAX_16))
+      .u32(Math.min(size, MAX_32))
+      .u32(Math.min(start, MAX_32))
+      .u16(0);
+    return writer.toBytes();
+  }
+}
+
+// One file inside the archive, handed to FileReceiver like any other storage
+class ZipEntryStorage implements ReceiveStorage {
+  readonly kind = 'zip';
+  readonly resumable = false;
+  private pending = new Map<number, ArrayBuffer>();
+  private nextOffset = 0;
+  private hasher = new Sha256();
+
+  constructor(private archive: ZipArchive, private entry: ZipEntry, private target: StorageTarget) {}
+
+  async write(offset: number, data: ArrayBuffer): Promise<void> {
+    if (offset < this.nextOffset) return;
+    this.pending.set(offset, data);
+
+    let next = this.pending.get(this.nextOffset);
+    while (next) {
+      await this.archive.ready();
+      this.pending.delete(this.nextOffset);
+      const bytes = new Uint8Array(next);
+      this.hasher.update(bytes);
+      this.archive.push(this.entry, bytes);
+      this.nextOffset += next.byteLength;
+      next = this.pending.get(this.nextOffset);
+    }
+  }
+
+  async finish(expectedHash: string): Promise<null> {
+    if (this.nextOffset !== this.target.fileSize || toHex(this.hasher.digest()) !== expectedHash) {
+      this.archive.dropEntry(this.entry);
+      throw new IntegrityError(this.target.fileName);
+    }
+    this.archive.finishEntry(this.entry);
+    return null;
+  }
+
+  async discard(): Promise<void> {
+    this.pending.clear();
+    this.archive.dropEntry(this.entry);
+  }
+}